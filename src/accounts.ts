@@ -0,0 +1,62 @@
+import { resolveAcceptedTokens } from './auth';
+import type { RocketChatConfig } from './types';
+
+// Multi-account configuration: inheritance from the top level and cross-account conflicts
+
+/**
+ * Effective config of an account: every field set on the account overrides the top-level value,
+ * unset fields are inherited. `groups` is merged per channel key.
+ */
+export function mergeAccountConfig(base: RocketChatConfig, account: RocketChatConfig): RocketChatConfig {
+  const { accounts: _accounts, name: _name, webhookPath: _webhookPath, standaloneServer: _server, ...inherited } = base;
+  const merged: RocketChatConfig = { ...inherited };
+  for (const [key, value] of Object.entries(account) as Array<[keyof RocketChatConfig, any]>) {
+    if (value !== undefined) (merged as any)[key] = value;
+  }
+  if (base.groups && account.groups) merged.groups = { ...base.groups, ...account.groups };
+  return merged;
+}
+
+/**
+ * Path of an account's outgoing webhook route
+ */
+export function resolveWebhookPath(accountId: string, config: RocketChatConfig): string {
+  return config.webhookPath || `/hooks/rocketchat/${accountId}`;
+}
+
+type ConflictField = 'authToken' | 'webhookPath' | 'standaloneServer';
+
+/**
+ * Accounts sharing an auth token, a webhook path or a standalone server port with an earlier account.
+ * Shared tokens would let one account's integration post into another; shared paths and ports cannot be routed.
+ */
+export function findAccountConflicts(
+  root: RocketChatConfig
+): Array<{ accountId: string; field: ConflictField; conflictsWith: string }> {
+  const conflicts: Array<{ accountId: string; field: ConflictField; conflictsWith: string }> = [];
+  const tokenOwners = new Map<string, string>();
+  const pathOwners = new Map<string, string>();
+  const portOwners = new Map<number, string>();
+
+  for (const [accountId, account] of Object.entries(root.accounts || {})) {
+    const config = mergeAccountConfig(root, account);
+    for (const token of new Set(resolveAcceptedTokens(config))) {
+      const owner = tokenOwners.get(token);
+      if (owner) conflicts.push({ accountId, field: 'authToken', conflictsWith: owner });
+      else tokenOwners.set(token, accountId);
+    }
+    if (config.inboundMode !== 'realtime') {
+      const webhookPath = resolveWebhookPath(accountId, config).replace(/\/+$/, '');
+      const owner = pathOwners.get(webhookPath);
+      if (owner) conflicts.push({ accountId, field: 'webhookPath', conflictsWith: owner });
+      else pathOwners.set(webhookPath, accountId);
+    }
+    const port = config.standaloneServer?.port;
+    if (port) {
+      const owner = portOwners.get(port);
+      if (owner) conflicts.push({ accountId, field: 'standaloneServer', conflictsWith: owner });
+      else portOwners.set(port, accountId);
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,145 @@
+import * as crypto from 'crypto';
+import type {
+  RocketChatInboundMessage,
+  RocketChatAttachmentAction,
+  RocketChatReplyButton,
+} from './types';
+
+// Interactive buttons: pending choices, signed click messages and click resolution
+
+// Unanswered choices expire after a day
+const ACTION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Prefix of the message a button click sends; also the trigger word of the outgoing webhook
+ * pointed at the action route
+ */
+export const ACTION_TRIGGER = 'choice:';
+
+// `choice:<set id>.<option index>.<signature>`, followed by the button text for readers of the room
+const CLICK_PATTERN = /^choice:([\w-]+)\.(\d+)\.([0-9a-f]{32})(?:\s|$)/;
+
+// Clicks are signed with a per-process secret; pending choices do not survive a restart either
+const actionSecret = crypto.randomBytes(32);
+
+export type ActionSet = {
+  id: string;
+  accountId: string;
+  options: RocketChatReplyButton[];
+  // Inbound message the buttons answer; only its sender may choose
+  inbound: RocketChatInboundMessage;
+  threadId?: string;
+  createdAt: number;
+  roomId?: string;
+  messageId?: string;
+  messageText?: string;
+  chosen?: number;
+};
+
+export type ActionReply = { set: ActionSet; index: number; option: RocketChatReplyButton };
+
+// Pending choices by action set ID
+const actionSets = new Map<string, ActionSet>();
+
+function pruneExpired(): void {
+  const now = Date.now();
+  for (const [id, set] of actionSets) {
+    if (now - set.createdAt > ACTION_TTL_MS) actionSets.delete(id);
+  }
+}
+
+function sign(accountId: string, id: string, option: number): string {
+  return crypto.createHmac('sha256', actionSecret).update(`${accountId}:${id}:${option}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Remember a set of choices offered in reply to an inbound message
+ */
+export function registerActionSet(params: {
+  accountId: string;
+  options: RocketChatReplyButton[];
+  inbound: RocketChatInboundMessage;
+  threadId?: string;
+}): ActionSet {
+  pruneExpired();
+  const set: ActionSet = {
+    id: crypto.randomBytes(9).toString('base64url'),
+    accountId: params.accountId,
+    options: params.options,
+    inbound: params.inbound,
+    threadId: params.threadId,
+    createdAt: Date.now(),
+  };
+  actionSets.set(set.id, set);
+  return set;
+}
+
+/**
+ * Attachment buttons for a set of choices. A click sends a signed `choice:` message as the user who
+ * clicked, so it arrives authenticated with the clicker's identity and cannot be confused with typed text.
+ * Buttons that answer no inbound message (no set) simply send their value as a chat message.
+ */
+export function buildActionButtons(options: RocketChatReplyButton[], set?: ActionSet): RocketChatAttachmentAction[] {
+  return options.map((option, index) => ({
+    type: 'button',
+    text: option.text,
+    msg: set
+      ? `${ACTION_TRIGGER}${set.id}.${index}.${sign(set.accountId, set.id, index)} ${option.text}`
+      : option.value || option.text,
+    msg_in_chat_window: true,
+  }));
+}
+
+/**
+ * Record which message carries a set of buttons so it can be updated after a click
+ */
+export function bindActionMessage(ids: string[], result: any): void {
+  const message = result?.message;
+  if (!message?._id) return;
+  for (const id of ids) {
+    const set = actionSets.get(id);
+    if (!set) continue;
+    set.roomId = message.rid;
+    set.messageId = message._id;
+    set.messageText = message.msg;
+  }
+}
+
+/**
+ * Verify the button click an inbound message carries. Returns undefined for messages that are not clicks;
+ * a click is rejected when its signature does not match, its choice expired, or it comes from anyone
+ * other than the user the buttons were offered to, in another room.
+ */
+export function resolveActionClick(
+  accountId: string,
+  data: RocketChatInboundMessage
+): ({ ok: true } & ActionReply) | { ok: false; error: string } | undefined {
+  const match = CLICK_PATTERN.exec((data.text || '').trim());
+  if (!match) return undefined;
+
+  const [, id, rawIndex, signature] = match;
+  const index = Number(rawIndex);
+  const expected = Buffer.from(sign(accountId, id, index));
+  if (!crypto.timingSafeEqual(Buffer.from(signature), expected)) {
+    return { ok: false, error: 'Invalid or tampered button' };
+  }
+
+  pruneExpired();
+  const set = actionSets.get(id);
+  const option = set?.options[index];
+  if (!set || set.accountId !== accountId || !option) return { ok: false, error: 'This choice has expired' };
+  if (set.inbound.user_id !== data.user_id || set.inbound.channel_id !== data.channel_id) {
+    return { ok: false, error: 'These buttons were offered to someone else' };
+  }
+  if (set.chosen !== undefined) return { ok: false, error: `Already answered: ${set.options[set.chosen].text}` };
+  return { ok: true, set, index, option };
+}
+
+/**
+ * Claim a verified choice; each set can be answered once
+ */
+export function claimActionReply(reply: ActionReply): boolean {
+  if (reply.set.chosen !== undefined) return false;
+  reply.set.chosen = reply.index;
+  return true;
+}
@@ -0,0 +1,186 @@
+import { chunkText, formatMessage } from '../utils';
+import { postMessage, updateMessage } from './rest-client';
+import { deliverWithRetry } from './delivery';
+import { AICardStatus } from './types';
+import type { AICardInstance, AICardStreamingRequest, RocketChatConfig, Logger } from './types';
+
+// Streaming replies: one message that is edited in place through chat.update
+
+const DEFAULT_THROTTLE_MS = 1000;
+const PLACEHOLDER_TEXT = '🤔 Thinking, please wait...';
+const TYPING_CURSOR = ' ▍';
+
+// AI Card instances by cardInstanceId (message ID)
+const aiCardInstances = new Map<string, AICardInstance>();
+
+// Target to active AI Card instance ID mapping (accountId:conversationId -> cardInstanceId)
+// Used to quickly lookup existing active cards for a target
+const activeCardsByTarget = new Map<string, string>();
+
+// Per-card edit scheduling: pending throttle timer and the serialized chain of chat.update calls
+const cardEditState = new Map<string, { timer?: ReturnType<typeof setTimeout>; chain: Promise<void>; lastSent: string }>();
+
+function targetKey(accountId: string, conversationId: string): string {
+  return `${accountId}:${conversationId}`;
+}
+
+/**
+ * Format card content and split it at textChunkLimit; the card shows the first part
+ */
+function splitCardContent(card: AICardInstance): string[] {
+  const done = card.state === AICardStatus.FINISHED || card.state === AICardStatus.FAILED;
+  const text = formatMessage(card.content, { markdown: card.config?.messageType !== 'text' });
+  // Leave room for the typing cursor and the failure notice
+  const limit = (card.config?.textChunkLimit ?? 4000) - 64;
+  return chunkText(text, { limit, numbered: done && card.config?.chunkNumbering });
+}
+
+/**
+ * Text shown for a card in its current state
+ */
+function renderCard(card: AICardInstance): string {
+  const body = splitCardContent(card)[0];
+  switch (card.state) {
+    case AICardStatus.PROCESSING:
+      return body || PLACEHOLDER_TEXT;
+    case AICardStatus.INPUTING:
+      return `${body}${TYPING_CURSOR}`;
+    case AICardStatus.FAILED:
+      return `${body ? `${body}\n\n` : ''}⚠️ Response failed, please try again.`;
+    default:
+      return body || '✅ Done';
+  }
+}
+
+/**
+ * Queue a chat.update with the current card text; edits are serialized so they land in order
+ */
+function flushCard(card: AICardInstance, log?: Logger): Promise<void> {
+  const state = cardEditState.get(card.cardInstanceId);
+  if (!state || !card.config) return Promise.resolve();
+
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = undefined;
+  }
+
+  const config = card.config;
+  state.chain = state.chain
+    .then(async () => {
+      const text = renderCard(card);
+      if (!text || text === state.lastSent) return;
+      await deliverWithRetry(config, card.roomId, () => updateMessage(config, card.roomId, card.cardInstanceId, text), log);
+      state.lastSent = text;
+      card.lastUpdated = Date.now();
+    })
+    .catch((err: any) => {
+      log?.warn?.(`[RocketChat] Streaming update failed for ${card.cardInstanceId}: ${err.message}`);
+    });
+  return state.chain;
+}
+
+/**
+ * Post the placeholder message that will be edited as the reply streams in
+ */
+export async function createAICard(
+  config: RocketChatConfig,
+  accountId: string,
+  conversationId: string,
+  options: { threadId?: string; log?: Logger } = {}
+): Promise<AICardInstance> {
+  const result = await postMessage(config, conversationId, { text: PLACEHOLDER_TEXT, tmid: options.threadId });
+  if (!result.message?._id) {
+    throw new Error('chat.postMessage returned no message id');
+  }
+
+  const now = Date.now();
+  const card: AICardInstance = {
+    cardInstanceId: result.message._id,
+    roomId: result.message.rid,
+    conversationId,
+    threadId: options.threadId,
+    createdAt: now,
+    lastUpdated: now,
+    state: AICardStatus.PROCESSING,
+    content: '',
+    config,
+  };
+
+  aiCardInstances.set(card.cardInstanceId, card);
+  activeCardsByTarget.set(targetKey(accountId, conversationId), card.cardInstanceId);
+  cardEditState.set(card.cardInstanceId, { chain: Promise.resolve(), lastSent: PLACEHOLDER_TEXT });
+  options.log?.debug?.(`[RocketChat] Created streaming card ${card.cardInstanceId} in ${conversationId}`);
+  return card;
+}
+
+/**
+ * Look up the active card for a conversation
+ */
+export function getActiveAICard(accountId: string, conversationId: string): AICardInstance | undefined {
+  const id = activeCardsByTarget.get(targetKey(accountId, conversationId));
+  return id ? aiCardInstances.get(id) : undefined;
+}
+
+/**
+ * Apply streamed content to a card.
+ * Intermediate edits are throttled to `streamThrottleMs`; finalizing flushes immediately and releases the card.
+ * Content beyond `textChunkLimit` stays out of the card and is posted as follow-up messages on finalize.
+ */
+export async function streamAICard(
+  accountId: string,
+  card: AICardInstance,
+  request: AICardStreamingRequest,
+  log?: Logger
+): Promise<void> {
+  if (card.state === AICardStatus.FINISHED || card.state === AICardStatus.FAILED) return;
+
+  if (request.content) {
+    card.content = request.isFull ? request.content : `${card.content}${request.content}`;
+  }
+
+  if (request.isFinalize || request.isError) {
+    card.state = request.isError ? AICardStatus.FAILED : AICardStatus.FINISHED;
+    const overflow = splitCardContent(card).slice(1);
+    await flushCard(card, log);
+    if (card.config && overflow.length) {
+      // Overflow goes through the regular send path: paced, retried, and kept in the outbox when unreachable
+      const { sendMessage } = await import('./channel');
+      for (const chunk of overflow) {
+        const result = await sendMessage(card.config, card.roomId, chunk, {
+          threadId: card.threadId,
+          log,
+          accountId,
+          durable: true,
+          preformatted: true,
+        });
+        if (!result.ok) {
+          log?.warn?.(`[RocketChat] Failed to post overflow of ${card.cardInstanceId}: ${result.error}`);
+          break;
+        }
+      }
+    }
+    aiCardInstances.delete(card.cardInstanceId);
+    cardEditState.delete(card.cardInstanceId);
+    if (activeCardsByTarget.get(targetKey(accountId, card.conversationId)) === card.cardInstanceId) {
+      activeCardsByTarget.delete(targetKey(accountId, card.conversationId));
+    }
+    return;
+  }
+
+  if (!card.content) return;
+  card.state = AICardStatus.INPUTING;
+
+  const state = cardEditState.get(card.cardInstanceId);
+  if (!state || state.timer) return;
+
+  const throttleMs = card.config?.streamThrottleMs ?? DEFAULT_THROTTLE_MS;
+  const wait = card.lastUpdated + throttleMs - Date.now();
+  if (wait <= 0) {
+    await flushCard(card, log);
+  } else {
+    state.timer = setTimeout(() => {
+      state.timer = undefined;
+      void flushCard(card, log);
+    }, wait);
+  }
+}
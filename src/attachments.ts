@@ -0,0 +1,121 @@
+import { formatMessage } from '../utils';
+import { registerActionSet, buildActionButtons } from './actions';
+import type {
+  RocketChatConfig,
+  RocketChatAttachment,
+  RocketChatAttachmentField,
+  RocketChatReplyCard,
+  RocketChatReplyChannelData,
+  RocketChatInboundMessage,
+  Logger,
+} from './types';
+
+// Structured agent reply content (payload.channelData.rocketchat) to Rocket.Chat message attachments
+
+const STATUS_COLORS: Record<string, string> = {
+  success: '#2de0a5',
+  ok: '#2de0a5',
+  info: '#1d74f5',
+  warning: '#ffd21f',
+  warn: '#ffd21f',
+  error: '#f5455c',
+  danger: '#f5455c',
+  critical: '#f5455c',
+};
+
+// Field values up to this length are laid out side by side
+const SHORT_FIELD_MAX = 30;
+
+/**
+ * Map a status name to its color; values that already look like colors are passed through
+ */
+export function resolveStatusColor(status?: string): string | undefined {
+  if (!status) return undefined;
+  const key = status.trim().toLowerCase();
+  if (STATUS_COLORS[key]) return STATUS_COLORS[key];
+  return /^#[0-9a-f]{3,8}$/i.test(key) ? key : undefined;
+}
+
+/**
+ * Normalize card fields given as a list or a key/value object
+ */
+function buildFields(fields: RocketChatReplyCard['fields']): RocketChatAttachmentField[] | undefined {
+  if (!fields) return undefined;
+  const entries = Array.isArray(fields)
+    ? fields.map((field) => ({ title: field?.title, value: field?.value, short: field?.short }))
+    : Object.entries(fields).map(([title, value]) => ({ title, value, short: undefined }));
+
+  const result = entries
+    .filter((field) => field.title && field.value !== undefined && field.value !== null)
+    .map((field) => {
+      const value = typeof field.value === 'string' ? field.value : JSON.stringify(field.value);
+      return { title: String(field.title), value, short: field.short ?? value.length <= SHORT_FIELD_MAX };
+    });
+  return result.length ? result : undefined;
+}
+
+/**
+ * Convert one reply card into a Rocket.Chat attachment; cards without any content are dropped
+ */
+export function buildCardAttachment(card: RocketChatReplyCard, options: { markdown?: boolean } = {}): RocketChatAttachment | null {
+  const attachment: RocketChatAttachment = {
+    title: card.title,
+    title_link: card.url,
+    text: card.text ? formatMessage(card.text, { markdown: options.markdown }) : undefined,
+    image_url: card.imageUrl,
+    thumb_url: card.thumbUrl,
+    color: card.color || resolveStatusColor(card.status),
+    fields: buildFields(card.fields),
+    // Rocket.Chat shows the title as the toggle of a collapsed attachment
+    collapsed: card.collapsed && card.title ? true : undefined,
+  };
+
+  if (!attachment.title && !attachment.text && !attachment.image_url && !attachment.fields && !card.buttons?.length) {
+    return null;
+  }
+  return Object.fromEntries(Object.entries(attachment).filter(([, value]) => value !== undefined)) as RocketChatAttachment;
+}
+
+/**
+ * Collect the attachments carried by an agent reply payload under `channelData.rocketchat`.
+ * Card buttons answering an inbound message are registered as pending choices; their IDs are
+ * returned so the sent message can be bound to them.
+ */
+export function resolveReplyAttachments(
+  payload: any,
+  config: RocketChatConfig,
+  options: { accountId?: string; inbound?: RocketChatInboundMessage; threadId?: string; log?: Logger } = {}
+): { attachments: RocketChatAttachment[]; actionIds: string[] } {
+  const attachments: RocketChatAttachment[] = [];
+  const actionIds: string[] = [];
+  const data = payload?.channelData?.rocketchat as RocketChatReplyChannelData | undefined;
+  if (!data || typeof data !== 'object') return { attachments, actionIds };
+
+  const markdown = config.messageType !== 'text';
+
+  for (const card of Array.isArray(data.cards) ? data.cards : []) {
+    const attachment = card && typeof card === 'object' ? buildCardAttachment(card, { markdown }) : null;
+    if (!attachment) {
+      options.log?.debug?.('[RocketChat] Skipping empty reply card');
+      continue;
+    }
+
+    const buttons = (Array.isArray(card.buttons) ? card.buttons : []).filter((button) => button?.text);
+    if (buttons.length) {
+      const set =
+        options.accountId && options.inbound
+          ? registerActionSet({ accountId: options.accountId, options: buttons, inbound: options.inbound, threadId: options.threadId })
+          : undefined;
+      if (set) actionIds.push(set.id);
+      attachment.actions = buildActionButtons(buttons, set);
+      attachment.button_alignment = buttons.length > 3 ? 'vertical' : 'horizontal';
+    }
+    attachments.push(attachment);
+  }
+
+  if (Array.isArray(data.attachments)) {
+    attachments.push(...data.attachments.filter((attachment) => attachment && typeof attachment === 'object'));
+  }
+
+  return { attachments, actionIds };
+}
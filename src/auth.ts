@@ -0,0 +1,148 @@
+import * as crypto from 'crypto';
+import * as net from 'net';
+import type { RocketChatConfig } from './types';
+
+// Verification of inbound HTTP requests (outgoing webhooks, slash commands)
+
+export type WebhookAuthResult = { ok: true } | { ok: false; status: 401 | 403; reason: string };
+
+/**
+ * Tokens accepted for an account: `authToken` plus `authTokens` (used while rotating)
+ */
+export function resolveAcceptedTokens(config: RocketChatConfig): string[] {
+  return [config.authToken, ...(config.authTokens || [])].filter((token): token is string => Boolean(token));
+}
+
+/**
+ * Constant-time token check against every accepted token.
+ * Both sides are hashed first so the comparison does not leak the token length.
+ */
+export function isAcceptedToken(config: RocketChatConfig, token: unknown): boolean {
+  return matchesAnyToken(resolveAcceptedTokens(config), token);
+}
+
+function matchesAnyToken(acceptedTokens: string[], token: unknown): boolean {
+  if (typeof token !== 'string' || !token) return false;
+  const digest = crypto.createHash('sha256').update(token).digest();
+  let matched = false;
+  for (const accepted of acceptedTokens) {
+    const expected = crypto.createHash('sha256').update(accepted).digest();
+    // No early exit, so the position of the matching token is not observable either
+    if (crypto.timingSafeEqual(digest, expected)) matched = true;
+  }
+  return matched;
+}
+
+/**
+ * Token of a request: the `token` field of the payload (Rocket.Chat outgoing webhooks),
+ * else an `Authorization: Bearer` or `X-Webhook-Token` header (proxies, custom integrations)
+ */
+export function resolveRequestToken(req: any, body: any): string | undefined {
+  if (typeof body?.token === 'string' && body.token) return body.token;
+  const authorization = String(req.headers?.authorization || '');
+  const bearer = /^Bearer\s+(.+)$/i.exec(authorization)?.[1]?.trim();
+  const header = req.headers?.['x-webhook-token'];
+  return bearer || (typeof header === 'string' && header ? header : undefined);
+}
+
+/**
+ * Client address of a request; `X-Forwarded-For` is only used with `trustProxy`
+ */
+export function resolveRemoteAddress(req: any, config: RocketChatConfig): string {
+  const forwarded = config.trustProxy ? String(req.headers?.['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  const address = forwarded || req.socket?.remoteAddress || req.ip || '';
+  // IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d
+  return address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+}
+
+/**
+ * Match an address against IPs and CIDR ranges (IPv4 and IPv6)
+ */
+export function isAddressAllowed(address: string, allowlist: string[]): boolean {
+  const family = net.isIP(address);
+  if (!family) return false;
+
+  const blockList = new net.BlockList();
+  for (const entry of allowlist) {
+    const [ip, prefix] = entry.trim().split('/');
+    const entryFamily = net.isIP(ip);
+    if (!entryFamily) continue;
+    const type = entryFamily === 6 ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) {
+      blockList.addAddress(ip, type);
+    } else {
+      const bits = Number(prefix);
+      if (Number.isInteger(bits) && bits >= 0 && bits <= (entryFamily === 6 ? 128 : 32)) blockList.addSubnet(ip, bits, type);
+    }
+  }
+  return blockList.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Rocket.Chat sends an ISO date; some integrations send epoch values or Mongo-style { $date }
+function parseTimestamp(value: any): number | undefined {
+  const raw = value && typeof value === 'object' ? value.$date : value;
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const numeric = Number(raw);
+  if (Number.isFinite(numeric)) return numeric < 1e12 ? numeric * 1000 : numeric;
+  const parsed = Date.parse(String(raw));
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Verify a metrics scrape: source address allowlist, then an `Authorization: Bearer` or `X-Webhook-Token`
+ * header matching `metricsToken`, or the account's webhook tokens when no metrics token is set
+ */
+export function verifyMetricsRequest(config: RocketChatConfig, req: any): WebhookAuthResult {
+  if (config.allowedSourceIps?.length) {
+    const address = resolveRemoteAddress(req, config);
+    if (!isAddressAllowed(address, config.allowedSourceIps)) {
+      return { ok: false, status: 403, reason: `source address ${address || 'unknown'} is not allowed` };
+    }
+  }
+
+  const acceptedTokens = config.metricsToken ? [config.metricsToken] : resolveAcceptedTokens(config);
+  if (!acceptedTokens.length) return { ok: false, status: 403, reason: 'no metricsToken or authToken configured' };
+
+  const token = resolveRequestToken(req, undefined);
+  if (!matchesAnyToken(acceptedTokens, token)) {
+    return { ok: false, status: 401, reason: token ? 'token mismatch' : 'missing token' };
+  }
+  return { ok: true };
+}
+
+/**
+ * Verify an inbound request: source address allowlist, token and timestamp freshness.
+ * Reasons never contain the received token.
+ */
+export function verifyWebhookRequest(
+  config: RocketChatConfig,
+  req: any,
+  body: any,
+  options: { requireTimestamp?: boolean } = {}
+): WebhookAuthResult {
+  if (config.allowedSourceIps?.length) {
+    const address = resolveRemoteAddress(req, config);
+    if (!isAddressAllowed(address, config.allowedSourceIps)) {
+      return { ok: false, status: 403, reason: `source address ${address || 'unknown'} is not allowed` };
+    }
+  }
+
+  const token = resolveRequestToken(req, body);
+  if (!isAcceptedToken(config, token)) {
+    return { ok: false, status: 401, reason: token ? 'token mismatch' : 'missing token' };
+  }
+
+  if (config.maxTimestampSkewSeconds) {
+    const timestamp = parseTimestamp(body?.timestamp);
+    if (timestamp === undefined) {
+      if (options.requireTimestamp ?? true) return { ok: false, status: 401, reason: 'missing timestamp' };
+    } else {
+      const skewSeconds = Math.round(Math.abs(Date.now() - timestamp) / 1000);
+      if (skewSeconds > config.maxTimestampSkewSeconds) {
+        return { ok: false, status: 401, reason: `timestamp outside the accepted window (${skewSeconds}s)` };
+      }
+    }
+  }
+
+  return { ok: true };
+}
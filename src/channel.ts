@@ -1,8 +1,42 @@
 import axios from 'axios';
 import type { OpenClawConfig } from 'openclaw/plugin-sdk';
 import { buildChannelConfigSchema } from 'openclaw/plugin-sdk';
-import { maskSensitiveData, cleanupOrphanedTempFiles, retryWithBackoff } from '../utils';
+import { maskSensitiveData, cleanupOrphanedTempFiles, chunkText, formatMessage } from '../utils';
 import { getRocketChatRuntime } from './runtime';
+import { isRestConfigured, postMessage, updateMessage, uploadFile } from './rest-client';
+import { startRealtimeListener } from './realtime';
+import { createAICard, streamAICard } from './ai-card';
+import { resolveReplyAttachments } from './attachments';
+import { bindActionMessage, resolveActionClick, claimActionReply, type ActionReply } from './actions';
+import { isDuplicateMessage, flushDedupCache } from './dedup';
+import { isAcceptedToken, resolveAcceptedTokens, verifyMetricsRequest, verifyWebhookRequest } from './auth';
+import { mergeAccountConfig, resolveWebhookPath } from './accounts';
+import { probeAccount } from './probe';
+import { recordInbound, recordOutbound, recordTurnaround, renderMetrics, trackInFlight } from './metrics';
+import { createStandaloneServer, type StandaloneServer } from './http-server';
+import { deliverWithRetry, noteRateLimitHeaders, resolveRequestTimeout, toDeliveryError, RocketChatDeliveryError } from './delivery';
+import { addToOutbox, flushOutbox, hasPendingOutbox, startOutbox, getOutboxStats } from './outbox';
+import { enqueueTask, getQueueStats, resolveConversationKey } from './queue';
+import {
+  isDirectMessage,
+  normalizeAllowFrom,
+  isSenderAllowed,
+  isGroupAllowed,
+  isGroupSenderAllowed,
+  resolveGroupRequireMention,
+  resolveCommandAuthorized,
+} from './policy';
+import { resolveBotUsername, buildMentionMatchers, detectMention } from './mention';
+import {
+  resolveInboundAttachments,
+  downloadInboundMedia,
+  describeMedia,
+  cleanupMediaFiles,
+  hasInboundMedia,
+  resolveOutboundMedia,
+  buildMediaAttachment,
+  toMediaFile,
+} from './media';
 import { RocketChatConfigSchema } from './config-schema.js';
 import type {
   RocketChatConfig,
@@ -10,63 +44,19 @@ import type {
   RocketChatOutboundMessage,
   MessageContent,
   SendMessageOptions,
-  MediaFile,
   HandleRocketChatMessageParams,
-  ProactiveMessagePayload,
   SessionWebhookResponse,
   AxiosResponse,
   Logger,
   GatewayStartContext,
   GatewayStopResult,
+  AICardInstance,
+  RocketChatActionResponse,
 } from './types';
 
 // Global logger reference for use across module methods
 let currentLogger: Logger | undefined;
 
-// Target to active AI Card instance ID mapping (accountId:conversationId -> cardInstanceId)
-// Used to quickly lookup existing active cards for a target
-const activeCardsByTarget = new Map<string, string>();
-
-// Authorization helpers
-type NormalizedAllowFrom = {
-  entries: string[];
-  entriesLower: string[];
-  hasWildcard: boolean;
-  hasEntries: boolean;
-};
-
-/**
- * Normalize allowFrom list to standardized format
- */
-function normalizeAllowFrom(list?: Array<string>): NormalizedAllowFrom {
-  const entries = (list ?? []).map((value) => String(value).trim()).filter(Boolean);
-  const hasWildcard = entries.includes('*');
-  const normalized = entries
-    .filter((value) => value !== '*')
-    .map((value) => value.replace(/^(rocketchat|rc|rocket):/i, ''));
-  const normalizedLower = normalized.map((value) => value.toLowerCase());
-  return {
-    entries: normalized,
-    entriesLower: normalizedLower,
-    hasWildcard,
-    hasEntries: entries.length > 0,
-  };
-}
-
-/**
- * Check if sender is allowed based on allowFrom list
- */
-function isSenderAllowed(params: {
-  allow: NormalizedAllowFrom;
-  senderId?: string;
-}): boolean {
-  const { allow, senderId } = params;
-  if (!allow.hasEntries) return true;
-  if (allow.hasWildcard) return true;
-  if (senderId && allow.entriesLower.includes(senderId.toLowerCase())) return true;
-  return false;
-}
-
 /**
  * Get the current logger instance
  * Useful for methods that don't receive log as a parameter
@@ -75,26 +65,257 @@ function getLogger(): Logger | undefined {
   return currentLogger;
 }
 
-// Helper function to detect markdown
-function detectMarkdown(text: string, options: SendMessageOptions): boolean {
-  const hasMarkdown = /^[#*>-]|[*_`#[\]]/.test(text) || text.includes('\n');
-  return options.useMarkdown !== false && (options.useMarkdown || hasMarkdown);
+// Markdown is used unless the caller or messageType asks for plain text
+function useMarkdown(config: RocketChatConfig, options: SendMessageOptions): boolean {
+  return options.useMarkdown ?? config.messageType !== 'text';
 }
 
+// Effective config of an account: its own entry on top of the top-level defaults, or the top level itself
 function getConfig(cfg: OpenClawConfig, accountId?: string): RocketChatConfig {
   const rocketchatCfg = cfg?.channels?.rocketchat as RocketChatConfig | undefined;
   if (!rocketchatCfg) return {} as RocketChatConfig;
 
   if (accountId && rocketchatCfg.accounts?.[accountId]) {
-    return rocketchatCfg.accounts[accountId];
+    return mergeAccountConfig(rocketchatCfg, rocketchatCfg.accounts[accountId]);
   }
 
   return rocketchatCfg;
 }
 
+// Config path of an account's settings, for hints that point users at the right place
+function configPathFor(cfg: OpenClawConfig, accountId?: string): string {
+  const rocketchatCfg = cfg?.channels?.rocketchat as RocketChatConfig | undefined;
+  return accountId && rocketchatCfg?.accounts?.[accountId]
+    ? `channels.rocketchat.accounts.${accountId}`
+    : 'channels.rocketchat';
+}
+
+function isRestMode(config: RocketChatConfig): boolean {
+  return config.outboundMode === 'rest';
+}
+
+// Check that the selected outbound transport has what it needs
+function hasOutboundCredentials(config: RocketChatConfig): boolean {
+  return isRestMode(config) ? isRestConfigured(config) : Boolean(config.webhookUrl);
+}
+
+// Check that the selected inbound transport has what it needs
+function hasInboundCredentials(config: RocketChatConfig): boolean {
+  return config.inboundMode === 'realtime'
+    ? Boolean(config.serverUrl && config.botAuthToken)
+    : resolveAcceptedTokens(config).length > 0;
+}
+
 function isConfigured(cfg: OpenClawConfig, accountId?: string): boolean {
   const config = getConfig(cfg, accountId);
-  return Boolean(config.webhookUrl && config.authToken);
+  return hasOutboundCredentials(config) && hasInboundCredentials(config);
+}
+
+// Silent version of the checks processRocketChatMessage runs before handing a message to the agent:
+// true when the message would have been handled, so rejecting it deserves a reply
+async function wouldHandleMessage(params: HandleRocketChatMessageParams): Promise<boolean> {
+  const { accountId, data, rocketchatConfig, log, verified, command } = params;
+  if (!verified && !isAcceptedToken(rocketchatConfig, data.token)) return false;
+  if (isDuplicateMessage({ accountId, config: rocketchatConfig, data, log })) return false;
+
+  const content = extractMessageContent(data);
+  if (!content.text && !content.mediaRefs?.length) return false;
+
+  const senderId = data.user_id;
+  if (isDirectMessage(data)) {
+    const dmPolicy = rocketchatConfig.dmPolicy || 'open';
+    const allowFrom = rocketchatConfig.allowFrom || [];
+    if (dmPolicy === 'allowlist') {
+      return isSenderAllowed({ allow: normalizeAllowFrom(allowFrom), senderId, senderName: data.user_name });
+    }
+    if (dmPolicy === 'pairing') {
+      try {
+        const storeAllowFrom: string[] = await getRocketChatRuntime().channel.pairing.readAllowFromStore({
+          channel: 'rocketchat',
+          accountId,
+        });
+        const allow = normalizeAllowFrom([...allowFrom, ...storeAllowFrom]);
+        return allow.hasEntries && isSenderAllowed({ allow, senderId, senderName: data.user_name });
+      } catch {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  const channelId = data.channel_id;
+  if (!isGroupAllowed(rocketchatConfig, channelId, data.channel_name)) return false;
+  if (!isGroupSenderAllowed(rocketchatConfig, { channelId, channelName: data.channel_name, senderId, senderName: data.user_name || 'Unknown' })) {
+    return false;
+  }
+  if (command || resolveActionClick(accountId, data)?.ok || !resolveGroupRequireMention(rocketchatConfig, channelId, data.channel_name)) {
+    return true;
+  }
+  const mention = detectMention(
+    content.text,
+    buildMentionMatchers(rocketchatConfig, await resolveBotUsername(rocketchatConfig, log))
+  );
+  return mention.mentioned;
+}
+
+// Queue an inbound message behind earlier messages of its conversation; replies "busy" when the queue is full
+// and the message is one the bot would have answered
+function enqueueRocketChatMessage(params: HandleRocketChatMessageParams): void {
+  const { accountId, data, rocketchatConfig, sessionWebhook, log } = params;
+  if (data.bot) return;
+
+  const key = resolveConversationKey(rocketchatConfig, data);
+  if (enqueueTask(accountId, key, rocketchatConfig, () => handleRocketChatMessage(params), log)) return;
+
+  void wouldHandleMessage(params).then((handled) => {
+    if (!handled) {
+      log?.debug?.(`[RocketChat] Queue full, dropping message ${data.message_id} the bot would not handle`);
+      return;
+    }
+    const stats = getQueueStats(accountId);
+    log?.warn?.(`[RocketChat] Queue full (${stats.queued} waiting, ${stats.running} running), rejecting message ${data.message_id}`);
+    return sendMessage(rocketchatConfig, data.channel_id, '⏳ Busy right now, please try again in a moment.', {
+      sessionWebhook,
+      threadId: data.tmid,
+      log,
+      accountId,
+    });
+  });
+}
+
+// Inbound webhook path registered for each running account (for status probes)
+const inboundRoutes = new Map<string, string>();
+
+// Route registration: OpenClaw's shared HTTP registry, or the account's standalone server
+type HttpRouteRegistrar = {
+  registerPluginHttpRoute: (params: any) => () => void;
+  normalizePluginHttpPath: (path: string, fallback: string) => string;
+};
+
+// SDK entry points exporting the HTTP route registry: the package root in older releases,
+// the webhook-ingress subpath in newer ones
+const ROUTE_REGISTRAR_MODULES = ['openclaw/plugin-sdk', 'openclaw/plugin-sdk/webhook-ingress'];
+
+let httpRegistry: HttpRouteRegistrar | undefined;
+
+// OpenClaw's HTTP route registry, resolved through the plugin SDK; throws when no entry point provides it
+async function loadHttpRegistry(): Promise<HttpRouteRegistrar> {
+  if (httpRegistry) return httpRegistry;
+
+  const failures: string[] = [];
+  for (const specifier of ROUTE_REGISTRAR_MODULES) {
+    try {
+      const sdk: any = await import(specifier);
+      if (typeof sdk.registerPluginHttpRoute === 'function' && typeof sdk.normalizePluginHttpPath === 'function') {
+        httpRegistry = {
+          registerPluginHttpRoute: sdk.registerPluginHttpRoute,
+          normalizePluginHttpPath: sdk.normalizePluginHttpPath,
+        };
+        return httpRegistry;
+      }
+      failures.push(`${specifier} has no registerPluginHttpRoute`);
+    } catch (err: any) {
+      failures.push(`${specifier}: ${err.message}`);
+    }
+  }
+  throw new Error(`No HTTP route registrar available from the OpenClaw plugin SDK (${failures.join('; ')})`);
+}
+
+// The account's own listener when `standaloneServer` is set, else the shared registry
+async function resolveRouteRegistrar(
+  config: RocketChatConfig,
+  log?: Logger
+): Promise<{ registrar: HttpRouteRegistrar; server?: StandaloneServer }> {
+  if (!config.standaloneServer) return { registrar: await loadHttpRegistry() };
+  const server = createStandaloneServer(config.standaloneServer, log);
+  return { registrar: server.registrar, server };
+}
+
+// Report a start failure in the account's status snapshot, where `lastError` is shown
+function reportStartError(ctx: GatewayStartContext, message: string): void {
+  ctx.log?.error?.(`[${ctx.account.accountId}] ${message}`);
+  ctx.setStatus?.({ ...ctx.getStatus?.(), lastError: message });
+}
+
+// Answer GET-only routes (health, metrics)
+function sendGetResponse(req: any, res: any, contentType: string, body: () => string): void {
+  if (req.method !== 'GET') {
+    res.statusCode = 405;
+    res.setHeader('Allow', 'GET');
+    res.end('Method Not Allowed');
+    return;
+  }
+
+  res.statusCode = 200;
+  res.setHeader('Content-Type', contentType);
+  res.end(body());
+}
+
+// Register an auxiliary route (slash commands, health check, metrics) for an account; returns its unregister function
+async function registerAccountRoute(
+  ctx: GatewayStartContext,
+  kind: 'command' | 'action' | 'health' | 'metrics',
+  registrar: HttpRouteRegistrar
+): Promise<() => void> {
+  const { account, cfg } = ctx;
+  const { registerPluginHttpRoute, normalizePluginHttpPath } = registrar;
+  const routePath = normalizePluginHttpPath(`/hooks/rocketchat/${account.accountId}/${kind}`, `/hooks/rocketchat/${kind}`);
+
+  const unregister = registerPluginHttpRoute({
+    path: routePath,
+    pluginId: 'rocketchat',
+    accountId: account.accountId,
+    // Requests are authenticated by the plugin itself (tokens); only the health check is public
+    auth: 'plugin',
+    throwOnFailure: true,
+    log: (msg: string) => ctx.log?.debug?.(msg),
+    handler: async (req: any, res: any) => {
+      if (kind === 'health') {
+        sendGetResponse(req, res, 'application/json', () =>
+          JSON.stringify({ status: 'ok', service: 'Rocket.Chat webhook handler', timestamp: new Date().toISOString() })
+        );
+      } else if (kind === 'metrics') {
+        const auth = verifyMetricsRequest(account.config, req);
+        if (!auth.ok) {
+          ctx.log?.warn?.(`[${account.accountId}] Rejected metrics request: ${auth.reason}`);
+          res.statusCode = auth.status;
+          res.end(auth.status === 401 ? 'Unauthorized' : 'Forbidden');
+          return;
+        }
+        sendGetResponse(req, res, 'text/plain; version=0.0.4; charset=utf-8', () => renderMetrics(account.accountId));
+      } else if (kind === 'action') {
+        const { rocketChatActionHandler } = await import('./webhook-handler');
+        await rocketChatActionHandler(req, res, cfg, account.accountId, account.config, ctx.log);
+      } else {
+        const { rocketChatCommandHandler } = await import('./webhook-handler');
+        await rocketChatCommandHandler(req, res, cfg, account.accountId, account.config, ctx.log);
+      }
+    },
+  });
+  ctx.log?.info?.(`[${account.accountId}] Rocket.Chat ${kind} route ready at ${routePath}`);
+  return unregister;
+}
+
+// Replay the account's undelivered replies while its gateway runs; returns the stop function
+function startAccountOutbox(ctx: GatewayStartContext): () => void {
+  const { account } = ctx;
+  const config = account.config;
+  return startOutbox(
+    account.accountId,
+    config,
+    async (entry) => {
+      const startedAt = Date.now();
+      await deliverWithRetry(
+        config,
+        entry.target,
+        () => sendProactive(config, entry.target, entry.text, { threadId: entry.threadId, attachments: entry.attachments }),
+        ctx.log
+      );
+      // Counted as queued when stored; a replay that fails again stays in the outbox and is not counted
+      recordOutbound(account.accountId, 'sent', Date.now() - startedAt);
+    },
+    ctx.log
+  );
 }
 
 // Send proactive message to Rocket.Chat
@@ -110,15 +331,19 @@ async function sendProactive(
 
   const payload: RocketChatOutboundMessage = {
     text,
+    tmid: options.threadId,
+    attachments: options.attachments,
   };
 
-  // If markdown is detected, we can enhance the payload
-  if (detectMarkdown(text, options)) {
-    // Rocket.Chat supports markdown natively, so we can send the text as-is
-    payload.text = text;
+  log?.debug?.(`[RocketChat] Sending payload: ${JSON.stringify(payload)}`);
+
+  // REST mode addresses the target room directly as the bot user
+  if (isRestMode(config)) {
+    return postMessage(config, target, payload);
   }
 
-  log?.debug?.(`[RocketChat] Sending payload: ${JSON.stringify(payload)}`);
+  // Incoming webhooks post to their default channel unless the payload names a `#channel` or `@user`
+  if (/^[#@]/.test(target)) payload.channel = target;
 
   // Use the configured webhookUrl to send messages to Rocket.Chat
   // According to Rocket.Chat webhook format, we don't need Authorization header
@@ -130,8 +355,10 @@ async function sendProactive(
       'Content-Type': 'application/json'
       // No Authorization header needed for Rocket.Chat outgoing webhooks
     },
+    timeout: resolveRequestTimeout(config),
   });
-  
+  noteRateLimitHeaders(config, result.headers);
+
   return result.data;
 }
 
@@ -142,15 +369,14 @@ async function sendBySession(
   text: string,
   options: SendMessageOptions = {}
 ): Promise<AxiosResponse> {
-  const useMarkdown = detectMarkdown(text, options);
+  const body: SessionWebhookResponse = { text };
 
-  let body: SessionWebhookResponse;
-  if (useMarkdown) {
-    let finalText = text;
-    if (options.atUserId) finalText = `${finalText} @${options.atUserId}`;
-    body = { text: finalText };
-  } else {
-    body = { text };
+  if (options.threadId) {
+    body.tmid = options.threadId;
+  }
+
+  if (options.attachments?.length) {
+    body.attachments = options.attachments;
   }
 
   if (options.atUserId) {
@@ -168,57 +394,272 @@ async function sendBySession(
     headers: { 
       'Content-Type': 'application/json'
     },
+    timeout: resolveRequestTimeout(config),
   });
-  
+  noteRateLimitHeaders(config, result.headers);
+
   return result.data;
 }
 
+// `queued`: the endpoint was unreachable and the message waits in the outbox
+type DeliveryResult = { ok: boolean; error?: string; data?: any; failure?: RocketChatDeliveryError; queued?: boolean };
+
 // Send message with automatic mode selection
 async function sendMessage(
   config: RocketChatConfig,
   conversationId: string,
   text: string,
-  options: SendMessageOptions & { sessionWebhook?: string; accountId?: string } = {}
-): Promise<{ ok: boolean; error?: string; data?: AxiosResponse }> {
+  options: SendMessageOptions & { sessionWebhook?: string; accountId?: string; durable?: boolean; preformatted?: boolean } = {}
+): Promise<DeliveryResult> {
   try {
     const log = options.log || getLogger();
 
-    // Prefer sessionWebhook for responses to incoming messages
-    if (options.sessionWebhook) {
-      await sendBySession(config, options.sessionWebhook, text, options);
-      return { ok: true };
+    // Convert agent markdown first so the chunk limit applies to what is actually sent
+    // (`preformatted`: the text was already converted, e.g. streaming card overflow)
+    const formatted = options.preformatted ? text : formatMessage(text, { markdown: useMarkdown(config, options) });
+
+    // Long replies are split into ordered parts that fit the server's message size limit
+    const chunks = chunkText(formatted, { limit: config.textChunkLimit, numbered: config.chunkNumbering });
+    if (chunks.length > 1) {
+      log?.debug?.(`[RocketChat] Splitting ${text.length} chars into ${chunks.length} messages`);
+    }
+
+    // Durable messages that cannot be delivered now are kept in the account outbox
+    const accountId = options.accountId || 'default';
+    const storeChunks = (from: number, error?: string) => {
+      addToOutbox(
+        accountId,
+        chunks.slice(from).map((chunk, offset) => ({
+          target: conversationId,
+          text: chunk,
+          threadId: options.threadId,
+          attachments: from + offset === chunks.length - 1 ? options.attachments : undefined,
+        })),
+        { error, log }
+      );
+      for (let index = from; index < chunks.length; index++) recordOutbound(accountId, 'queued');
+    };
+
+    // Keep order: while older messages to this room are pending, new ones queue behind them
+    if (options.durable && hasPendingOutbox(accountId, conversationId)) {
+      storeChunks(0);
+      void flushOutbox(accountId);
+      return { ok: true, queued: true };
+    }
+
+    let data: AxiosResponse | undefined;
+    for (const [index, chunk] of chunks.entries()) {
+      // Attachments and mentions go with the last part only
+      const chunkOptions =
+        index === chunks.length - 1 ? options : { ...options, attachments: undefined, atUserId: undefined };
+
+      const startedAt = Date.now();
+      try {
+        // Prefer sessionWebhook for responses to incoming messages.
+        // REST mode always posts to the conversation itself, so it skips the session path.
+        if (options.sessionWebhook && !isRestMode(config)) {
+          await deliverWithRetry(config, conversationId, () => sendBySession(config, options.sessionWebhook!, chunk, chunkOptions), log);
+        } else {
+          // Otherwise, use proactive messaging
+          data = await deliverWithRetry(config, conversationId, () => sendProactive(config, conversationId, chunk, chunkOptions), log);
+        }
+        recordOutbound(accountId, 'sent', Date.now() - startedAt);
+      } catch (err: any) {
+        const failure = toDeliveryError(err);
+        if (!options.durable || !failure.retryable) {
+          recordOutbound(accountId, 'failed', Date.now() - startedAt);
+          throw failure;
+        }
+        storeChunks(index, failure.message);
+        return { ok: true, queued: true };
+      }
+    }
+    return { ok: true, data };
+  } catch (err: any) {
+    const failure = toDeliveryError(err);
+    options.log?.error?.(`[RocketChat] Send message failed: ${failure.message}`);
+    return { ok: false, error: failure.message, failure };
+  }
+}
+
+// Send a file or image: URLs go out as attachments, local files are uploaded through rooms.upload (REST mode)
+async function sendMediaMessage(
+  config: RocketChatConfig,
+  conversationId: string,
+  mediaRef: string,
+  options: SendMessageOptions & { sessionWebhook?: string; accountId?: string; caption?: string } = {}
+): Promise<DeliveryResult> {
+  const accountId = options.accountId || 'default';
+  let startedAt: number | undefined;
+  try {
+    const media = await resolveOutboundMedia(mediaRef);
+
+    if (media.kind === 'url') {
+      return await sendMessage(config, conversationId, options.caption || '', {
+        ...options,
+        attachments: [buildMediaAttachment(media)],
+      });
+    }
+
+    if (!isRestMode(config)) {
+      throw new Error('Uploading local files requires outboundMode "rest"');
     }
 
-    // Otherwise, use proactive messaging
-    const result = await sendProactive(config, conversationId, text, options);
+    startedAt = Date.now();
+    const result = await deliverWithRetry(
+      config,
+      conversationId,
+      () =>
+        uploadFile(
+          config,
+          conversationId,
+          { ...toMediaFile(media.location), name: media.name },
+          { msg: options.caption, tmid: options.threadId }
+        ),
+      options.log
+    );
+    recordOutbound(accountId, 'sent', Date.now() - startedAt);
     return { ok: true, data: result };
   } catch (err: any) {
-    options.log?.error?.(`[RocketChat] Send message failed: ${err.message}`);
-    return { ok: false, error: err.message };
+    const failure = toDeliveryError(err);
+    recordOutbound(accountId, 'failed', startedAt === undefined ? undefined : Date.now() - startedAt);
+    options.log?.error?.(`[RocketChat] Send media failed: ${failure.message}`);
+    return { ok: false, error: failure.message, failure };
+  }
+}
+
+// Issue (or reuse) a pairing request for an unknown DM sender; the code is only sent when first created
+async function requestPairing(params: {
+  rt: any;
+  config: RocketChatConfig;
+  accountId: string;
+  channelId: string;
+  senderId: string;
+  senderName: string;
+  username?: string;
+  log?: Logger;
+}): Promise<void> {
+  const { rt, config, accountId, channelId, senderId, senderName, username, log } = params;
+
+  try {
+    const { code, created } = await rt.channel.pairing.upsertPairingRequest({
+      channel: 'rocketchat',
+      id: senderId,
+      accountId,
+      meta: { name: senderName, username, roomId: channelId },
+    });
+
+    if (!created) {
+      log?.debug?.(`[RocketChat] DM blocked: pairing request for senderId=${senderId} is still pending`);
+      return;
+    }
+
+    log?.info?.(`[RocketChat] Pairing request created for ${senderName} (${senderId})`);
+    const reply = rt.channel.pairing.buildPairingReply({
+      channel: 'rocketchat',
+      idLine: `Your Rocket.Chat user ID: ${senderId}`,
+      code,
+    });
+    // The code must reach the requester's DM only: an incoming webhook would post it to its default channel
+    const target = resolveDirectTarget(config, channelId, username);
+    if (!target) {
+      log?.warn?.(`[RocketChat] Cannot send pairing code to ${senderId}: the webhook needs the sender's username`);
+      return;
+    }
+    const result = await sendMessage(config, target, reply, { log, accountId });
+    if (!result.ok) {
+      log?.warn?.(`[RocketChat] Failed to send pairing code: ${result.error}`);
+    }
+  } catch (err: any) {
+    log?.error?.(`[RocketChat] Failed to create pairing request for ${senderId}: ${err.message}`);
+  }
+}
+
+// Address of a user's DM: its room in REST mode, `@username` through an incoming webhook
+function resolveDirectTarget(config: RocketChatConfig, roomId?: string, username?: string): string | undefined {
+  if (isRestMode(config) && roomId) return roomId;
+  return username ? `@${username}` : undefined;
+}
+
+// Reply to a group message blocked by policy, when groupBlockedAction is 'notify'
+async function notifyGroupBlocked(
+  config: RocketChatConfig,
+  channelId: string,
+  text: string,
+  options: SendMessageOptions & { sessionWebhook?: string; accountId?: string }
+): Promise<void> {
+  if (config.groupBlockedAction !== 'notify') return;
+
+  const result = await sendMessage(config, channelId, text, options);
+  if (!result.ok) {
+    options.log?.debug?.(`[RocketChat] Failed to send group blocked message: ${result.error}`);
   }
 }
 
 // Extract message content from Rocket.Chat inbound message
 function extractMessageContent(data: RocketChatInboundMessage): MessageContent {
-  return { 
-    text: data.text?.trim() || '', 
-    messageType: 'text' 
+  const text = data.text?.trim() || '';
+  const mediaRefs = resolveInboundAttachments(data);
+  if (mediaRefs.length === 0) {
+    return { text, messageType: 'text' };
+  }
+
+  // Upload captions are carried in the attachment description rather than the message text
+  const caption =
+    text ||
+    (data.attachments ?? [])
+      .map((attachment) => attachment.description?.trim())
+      .filter(Boolean)
+      .join('\n');
+
+  return {
+    text: caption,
+    messageType: mediaRefs[0].mimeType.startsWith('image/') ? 'image' : 'file',
+    mediaRefs,
   };
 }
 
-// Message handler
+// Show a button choice on the button message itself, or in a follow-up when it cannot be edited
+async function recordButtonChoice(
+  config: RocketChatConfig,
+  reply: ActionReply,
+  log?: Logger
+): Promise<RocketChatActionResponse> {
+  const { set, option } = reply;
+  log?.info?.(`[RocketChat] Button "${option.text}" chosen for action set ${set.id}`);
+
+  const note = `✅ Selected: *${option.text}*`;
+  try {
+    if (set.messageId && set.roomId && isRestConfigured(config)) {
+      await updateMessage(config, set.roomId, set.messageId, set.messageText ? `${set.messageText}\n\n${note}` : note);
+    } else {
+      await sendMessage(config, set.inbound.channel_id, note, { threadId: set.threadId, log, accountId: set.accountId });
+    }
+  } catch (err: any) {
+    log?.warn?.(`[RocketChat] Failed to mark button choice: ${err.message}`);
+  }
+  return { actionId: set.id, label: option.text, value: option.value || option.text };
+}
+
+// Message handler, counted as in flight until the reply is delivered
 async function handleRocketChatMessage(params: HandleRocketChatMessageParams): Promise<void> {
-  const { cfg, accountId, data, sessionWebhook, log, rocketchatConfig } = params;
+  return trackInFlight(params.accountId, () => processRocketChatMessage(params));
+}
+
+async function processRocketChatMessage(params: HandleRocketChatMessageParams): Promise<void> {
+  const { cfg, accountId, data, sessionWebhook, log, rocketchatConfig, verified, command } = params;
   const rt = getRocketChatRuntime();
+  const receivedAt = Date.now();
 
   // Save logger reference globally for use by other methods
   currentLogger = log;
 
   log?.debug?.('[RocketChat] Full Inbound Data:', JSON.stringify(maskSensitiveData(data)));
 
-  // Verify auth token
-  if (data.token !== rocketchatConfig.authToken) {
-    log?.warn?.(`[RocketChat] Invalid auth token received: ${data.token}`);
+  // Verify auth token (realtime messages are already authenticated by the bot login)
+  if (!verified && !isAcceptedToken(rocketchatConfig, data.token)) {
+    log?.warn?.(`[RocketChat] Ignoring message ${data.message_id} with an invalid auth token`);
+    recordInbound(accountId, 'unauthorized');
     return;
   }
 
@@ -228,63 +669,172 @@ async function handleRocketChatMessage(params: HandleRocketChatMessageParams): P
     return;
   }
 
+  // Webhook retries and realtime re-emits reuse the message_id
+  if (isDuplicateMessage({ accountId, config: rocketchatConfig, data, log })) {
+    recordInbound(accountId, 'duplicate');
+    return;
+  }
+
   const content = extractMessageContent(data);
-  if (!content.text) return;
+  const mediaRefs = content.mediaRefs ?? [];
+  if (!content.text && mediaRefs.length === 0) {
+    recordInbound(accountId, 'bad_request');
+    return;
+  }
 
-  const isDirect = !data.channel_name || data.channel_name.startsWith('@'); // Assuming DMs start with @
+  const isDirect = isDirectMessage(data);
   const senderId = data.user_id;
   const senderName = data.user_name || 'Unknown';
   const channelId = data.channel_id;
   const channelName = data.channel_name || 'Direct Message';
+  // A button click arrives as the clicker's own message carrying a signed `choice:` token
+  const click = command ? undefined : resolveActionClick(accountId, data);
+  if (click && !click.ok) {
+    log?.info?.(`[RocketChat] Rejected button click ${data.message_id} from ${senderId}: ${click.error}`);
+    await sendMessage(rocketchatConfig, channelId, `⚠️ ${click.error}`, { sessionWebhook, threadId: data.tmid, log, accountId });
+    recordInbound(accountId, 'blocked');
+    return;
+  }
+  const buttonReply = click?.ok ? click : undefined;
+  // Thread replies carry tmid; with replyInThread a top-level group message starts a thread under itself
+  const threadId =
+    buttonReply?.set.threadId ?? (data.tmid || (!isDirect && rocketchatConfig.replyInThread ? data.message_id : undefined));
 
-  // 2. Check authorization for direct messages based on dmPolicy
-  let commandAuthorized = true;
+  // 2. Check authorization: dmPolicy for direct messages, groupPolicy and sender allowlists for channels
+  let paired = false;
   if (isDirect) {
     const dmPolicy = rocketchatConfig.dmPolicy || 'open';
     const allowFrom = rocketchatConfig.allowFrom || [];
 
     if (dmPolicy === 'allowlist') {
       const normalizedAllowFrom = normalizeAllowFrom(allowFrom);
-      const isAllowed = isSenderAllowed({ allow: normalizedAllowFrom, senderId });
+      const isAllowed = isSenderAllowed({ allow: normalizedAllowFrom, senderId, senderName: data.user_name });
 
       if (!isAllowed) {
         log?.debug?.(`[RocketChat] DM blocked: senderId=${senderId} not in allowlist (dmPolicy=allowlist)`);
 
         // Notify user with their sender ID so they can request access
-        try {
-          await sendBySession(
-            rocketchatConfig,
-            sessionWebhook,
-            `⛔ Access restricted\n\nYour user ID: \`${senderId}\`\n\nPlease contact administrator to add this ID to the allowlist.`,
-            { log }
-          );
-        } catch (err: any) {
-          log?.debug?.(`[RocketChat] Failed to send access denied message: ${err.message}`);
+        const denied = await sendMessage(
+          rocketchatConfig,
+          channelId,
+          `⛔ Access restricted\n\nYour user ID: \`${senderId}\`\n\nPlease contact administrator to add this ID to the allowlist.`,
+          { sessionWebhook, threadId, log, accountId }
+        );
+        if (!denied.ok) {
+          log?.debug?.(`[RocketChat] Failed to send access denied message: ${denied.error}`);
         }
 
+        recordInbound(accountId, 'blocked');
         return;
       }
 
       log?.debug?.(`[RocketChat] DM authorized: senderId=${senderId} in allowlist`);
     } else if (dmPolicy === 'pairing') {
-      // For pairing mode, SDK will handle the authorization
-      // Set commandAuthorized to true to let SDK check pairing status
-      commandAuthorized = true;
-    } else {
-      // 'open' policy - allow all
-      commandAuthorized = true;
+      // Configured allowFrom plus the approvals persisted by the SDK pairing store for this account
+      let isPaired = false;
+      try {
+        const storeAllowFrom: string[] = await rt.channel.pairing.readAllowFromStore({ channel: 'rocketchat', accountId });
+        const allow = normalizeAllowFrom([...allowFrom, ...storeAllowFrom]);
+        isPaired = allow.hasEntries && isSenderAllowed({ allow, senderId, senderName: data.user_name });
+      } catch (err: any) {
+        log?.error?.(`[RocketChat] Failed to read pairing store: ${err.message}`);
+      }
+
+      if (!isPaired) {
+        await requestPairing({
+          rt,
+          config: rocketchatConfig,
+          accountId,
+          channelId,
+          senderId,
+          senderName,
+          username: data.user_name,
+          log,
+        });
+        recordInbound(accountId, 'blocked');
+        return;
+      }
+
+      log?.debug?.(`[RocketChat] DM authorized: senderId=${senderId} is paired`);
+      paired = true;
+    }
+  } else {
+    if (!isGroupAllowed(rocketchatConfig, channelId, data.channel_name)) {
+      log?.debug?.(
+        `[RocketChat] Group blocked: channel=${channelName} (${channelId}) not allowed (groupPolicy=${rocketchatConfig.groupPolicy || 'open'})`
+      );
+      await notifyGroupBlocked(rocketchatConfig, channelId, '⛔ This channel is not enabled for the bot.', {
+        sessionWebhook,
+        threadId,
+        log,
+        accountId,
+      });
+      recordInbound(accountId, 'blocked');
+      return;
+    }
+
+    if (!isGroupSenderAllowed(rocketchatConfig, { channelId, channelName: data.channel_name, senderId, senderName })) {
+      log?.debug?.(`[RocketChat] Group message blocked: senderId=${senderId} not in allowlist for channel ${channelId}`);
+      await notifyGroupBlocked(
+        rocketchatConfig,
+        channelId,
+        `⛔ Access restricted\n\nYour user ID: \`${senderId}\`\n\nPlease contact administrator to allow you in this channel.`,
+        { sessionWebhook, threadId, log, accountId }
+      );
+      recordInbound(accountId, 'blocked');
+      return;
     }
   }
 
-  // For now, we're not handling media files, but we could extend this later
-  let mediaPath: string | undefined;
-  let mediaType: string | undefined;
+  // Only the sender the buttons were offered to gets here with a verified click; the choice is taken once
+  const action = buttonReply && claimActionReply(buttonReply) ? await recordButtonChoice(rocketchatConfig, buttonReply, log) : undefined;
 
+  const commandAuthorized = resolveCommandAuthorized(rocketchatConfig, {
+    isDirect,
+    channelId,
+    channelName: data.channel_name,
+    senderId,
+    senderName,
+    paired,
+  });
+
+  // 3. Detect bot mentions; unaddressed group messages are ignored when a mention is required
+  const mention = detectMention(
+    content.text,
+    buildMentionMatchers(rocketchatConfig, await resolveBotUsername(rocketchatConfig, log))
+  );
+  if (!isDirect && !mention.mentioned && !action && !command && resolveGroupRequireMention(rocketchatConfig, channelId, data.channel_name)) {
+    log?.debug?.(`[RocketChat] Ignoring group message without bot mention in ${channelName} (${channelId})`);
+    recordInbound(accountId, 'blocked');
+    return;
+  }
+  if (mention.mentioned && !mention.stripped && mediaRefs.length === 0) {
+    log?.debug?.('[RocketChat] Ignoring message that only mentions the bot');
+    recordInbound(accountId, 'bad_request');
+    return;
+  }
+
+  // Download attachments only once the sender is authorized
+  const mediaFiles = mediaRefs.length
+    ? await downloadInboundMedia(rocketchatConfig, mediaRefs, { siteUrl: data.siteUrl, log })
+    : [];
+  const mediaPath = mediaFiles[0]?.path;
+  const mediaType = mediaFiles[0]?.mimeType;
+  // Button clicks reach the agent as a structured choice rather than free text
+  const rawText = action
+    ? `[Button] Selected "${action.label}" (value: ${action.value})`
+    : content.text || describeMedia(mediaRefs);
+  const commandText = action ? action.value : mention.stripped || describeMedia(mediaRefs);
+
+  // Each thread gets its own session; the room itself stays the parent peer for bindings
+  const peerKind = isDirect ? 'dm' : 'group';
+  const peerId = isDirect ? senderId : channelId;
   const route = rt.channel.routing.resolveAgentRoute({
     cfg,
     channel: 'rocketchat',
     accountId,
-    peer: { kind: isDirect ? 'dm' : 'group', id: isDirect ? senderId : channelId },
+    peer: { kind: peerKind, id: threadId ? `${peerId}:thread:${threadId}` : peerId },
+    parentPeer: threadId ? { kind: peerKind, id: peerId } : undefined,
   });
 
   const storePath = rt.channel.session.resolveStorePath(cfg.session?.store, { agentId: route.agentId });
@@ -296,19 +846,21 @@ async function handleRocketChatMessage(params: HandleRocketChatMessageParams): P
     channel: 'RocketChat',
     from: fromLabel,
     timestamp: data.timestamp,
-    body: content.text,
+    body: rawText,
     chatType: isDirect ? 'direct' : 'group',
     sender: { name: senderName, id: senderId },
     previousTimestamp,
     envelope: envelopeOptions,
   });
 
-  const to = isDirect ? senderId : channelId;
+  // Replies always go back to the originating room (channel or DM room)
+  const from = isDirect ? senderId : channelId;
+  const to = channelId;
   const ctx = rt.channel.reply.finalizeInboundContext({
     Body: body,
-    RawBody: content.text,
-    CommandBody: content.text,
-    From: to,
+    RawBody: commandText,
+    CommandBody: commandText,
+    From: from,
     To: to,
     SessionKey: route.sessionKey,
     AccountId: accountId,
@@ -320,11 +872,16 @@ async function handleRocketChatMessage(params: HandleRocketChatMessageParams): P
     Provider: 'rocketchat',
     Surface: 'rocketchat',
     MessageSid: data.message_id,
+    MessageThreadId: threadId,
+    WasMentioned: isDirect ? undefined : mention.mentioned,
     Timestamp: data.timestamp,
     MediaPath: mediaPath,
     MediaType: mediaType,
     MediaUrl: mediaPath,
+    MediaPaths: mediaFiles.length > 1 ? mediaFiles.map((file) => file.path) : undefined,
+    MediaTypes: mediaFiles.length > 1 ? mediaFiles.map((file) => file.mimeType) : undefined,
     CommandAuthorized: commandAuthorized,
+    CommandSource: command && commandText.startsWith('/') ? 'native' : undefined,
     OriginatingChannel: 'rocketchat',
     OriginatingTo: to,
   });
@@ -339,15 +896,27 @@ async function handleRocketChatMessage(params: HandleRocketChatMessageParams): P
     },
   });
 
-  log?.info?.(`[RocketChat] Inbound: from=${senderName} text="${content.text.slice(0, 50)}..."`);
+  log?.info?.(`[RocketChat] Inbound: from=${senderName} text="${rawText.slice(0, 50)}..."`);
+  recordInbound(accountId, 'accepted');
+
+  // Streaming mode posts a placeholder that doubles as the thinking indicator and is edited as blocks arrive
+  let card: AICardInstance | undefined;
+  if (rocketchatConfig.streamMode === 'edit' && isRestMode(rocketchatConfig)) {
+    try {
+      card = await createAICard(rocketchatConfig, accountId, to, { threadId, log });
+    } catch (err: any) {
+      log?.warn?.(`[RocketChat] Failed to start streaming reply, falling back to buffered delivery: ${err.message}`);
+    }
+  }
 
   // Feedback: Thinking...
-  if (rocketchatConfig.showThinking !== false) {
+  if (!card && rocketchatConfig.showThinking !== false) {
     try {
       const thinkingText = '🤔 Thinking, please wait...';
       await sendMessage(rocketchatConfig, to, thinkingText, {
         sessionWebhook,
         atUserId: !isDirect ? senderId : null,
+        threadId,
         log,
         accountId,
       });
@@ -356,33 +925,94 @@ async function handleRocketChatMessage(params: HandleRocketChatMessageParams): P
     }
   }
 
-  const { queuedFinal } = await rt.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
-    ctx,
-    cfg,
-    dispatcherOptions: {
-      responsePrefix: '',
-      deliver: async (payload: any) => {
-        try {
-          const textToSend = payload.markdown || payload.text;
-          if (!textToSend) return;
-
-          await sendMessage(rocketchatConfig, to, textToSend, {
-            sessionWebhook,
-            atUserId: !isDirect ? senderId : null,
-            log,
-            accountId,
-          });
-        } catch (err: any) {
-          log?.error?.(`[RocketChat] Reply failed: ${err.message}`);
-          throw err;
-        }
+  try {
+    await rt.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+      ctx,
+      cfg,
+      dispatcherOptions: {
+        responsePrefix: '',
+        deliver: async (payload: any, info?: { kind?: 'tool' | 'block' | 'final' }) => {
+          try {
+            const textToSend = payload.markdown || payload.text;
+            const mediaUrls: string[] = payload.mediaUrls?.length
+              ? payload.mediaUrls
+              : payload.mediaUrl
+                ? [payload.mediaUrl]
+                : [];
+            const { attachments, actionIds } = resolveReplyAttachments(payload, rocketchatConfig, {
+              accountId,
+              inbound: data,
+              threadId,
+              log,
+            });
+            if (!textToSend && mediaUrls.length === 0 && attachments.length === 0) return;
+
+            if (textToSend && card && info?.kind !== 'tool') {
+              // Blocks are appended to the streaming card; the final payload carries the complete answer
+              const isFull = info?.kind === 'final';
+              await streamAICard(
+                accountId,
+                card,
+                { content: isFull || !card.content ? textToSend : `\n\n${textToSend}`, isFull, isFinalize: false, isError: false },
+                log
+              );
+            } else if (textToSend) {
+              const sent = await sendMessage(rocketchatConfig, to, textToSend, {
+                sessionWebhook,
+                atUserId: !isDirect ? senderId : null,
+                threadId,
+                attachments,
+                log,
+                accountId,
+                durable: true,
+              });
+              if (!sent.ok) throw sent.failure ?? new RocketChatDeliveryError(sent.error || 'Send failed');
+              bindActionMessage(actionIds, sent.data);
+            }
+
+            // Cards go with the text message, or on their own when the text went to the streaming card
+            if (attachments.length && (!textToSend || (card && info?.kind !== 'tool'))) {
+              const sent = await sendMessage(rocketchatConfig, to, '', {
+                sessionWebhook,
+                threadId,
+                attachments,
+                log,
+                accountId,
+                durable: true,
+              });
+              if (!sent.ok) throw sent.failure ?? new RocketChatDeliveryError(sent.error || 'Send failed');
+              bindActionMessage(actionIds, sent.data);
+            }
+
+            for (const mediaUrl of mediaUrls) {
+              const sent = await sendMediaMessage(rocketchatConfig, to, mediaUrl, { sessionWebhook, threadId, log, accountId });
+              if (!sent.ok) throw sent.failure ?? new RocketChatDeliveryError(sent.error || 'Send failed');
+            }
+          } catch (err: any) {
+            // Delivery failures are re-thrown so the dispatcher sees them instead of a silent drop
+            log?.error?.(`[RocketChat] Reply failed: ${err.message}`);
+            throw err;
+          }
+        },
       },
-    },
-  });
+      // Block streaming only feeds the streaming card; buffered mode keeps one message per reply
+      replyOptions: { disableBlockStreaming: !card },
+    });
+  } catch (err) {
+    if (card) {
+      await streamAICard(accountId, card, { content: '', isFull: false, isFinalize: true, isError: true }, log);
+    }
+    throw err;
+  }
 
-  // Cleanup media if necessary
-  if (mediaPath) {
-    // TODO: Implement media cleanup if needed
+  if (card) {
+    await streamAICard(accountId, card, { content: '', isFull: false, isFinalize: true, isError: false }, log);
+  }
+  recordTurnaround(accountId, Date.now() - receivedAt);
+
+  // Cleanup downloaded media; anything left behind by a failed run is swept by cleanupOrphanedTempFiles
+  if (mediaFiles.length) {
+    cleanupMediaFiles(mediaFiles, log);
   }
 }
 
@@ -401,10 +1031,10 @@ export const rocketchatPlugin = {
   capabilities: {
     chatTypes: ['direct', 'group'],
     reactions: false,
-    threads: false,
+    threads: true,
     media: true,
-    nativeCommands: false,
-    blockStreaming: false,
+    nativeCommands: true,
+    blockStreaming: true,
     outbound: true,
   },
   reload: { configPrefixes: ['channels.rocketchat'] },
@@ -414,34 +1044,53 @@ export const rocketchatPlugin = {
       return config.accounts ? Object.keys(config.accounts) : isConfigured(cfg) ? ['default'] : [];
     },
     resolveAccount: (cfg: OpenClawConfig, accountId?: string) => {
-      const config = getConfig(cfg);
       const id = accountId || 'default';
-      const account = config.accounts?.[id];
-      return account
-        ? { accountId: id, config: account, enabled: account.enabled !== false }
-        : { accountId: 'default', config, enabled: config.enabled !== false };
+      const resolvedId = getConfig(cfg).accounts?.[id] ? id : 'default';
+      const config = getConfig(cfg, resolvedId);
+      return { accountId: resolvedId, config, enabled: config.enabled !== false };
     },
     defaultAccountId: (): string => 'default',
-    isConfigured: (account: any): boolean => Boolean(account.config?.webhookUrl && account.config?.authToken),
+    isConfigured: (account: any): boolean =>
+      Boolean(account.config && hasOutboundCredentials(account.config) && hasInboundCredentials(account.config)),
     describeAccount: (account: any) => ({
       accountId: account.accountId,
       name: account.config?.name || 'Rocket.Chat',
       enabled: account.enabled,
-      configured: Boolean(account.config?.webhookUrl),
+      configured: Boolean(account.config && hasOutboundCredentials(account.config)),
     }),
   },
   security: {
-    resolveDmPolicy: ({ account }: any) => ({
-      policy: account.config?.dmPolicy || 'open',
-      allowFrom: account.config?.allowFrom || [],
-      policyPath: 'channels.rocketchat.dmPolicy',
-      allowFromPath: 'channels.rocketchat.allowFrom',
-      approveHint: 'Use /allow rocketchat:<userId> to approve user',
-      normalizeEntry: (raw: string) => raw.replace(/^(rocketchat|rc|rocket):/i, ''),
-    }),
+    resolveDmPolicy: ({ cfg, account }: any) => {
+      const config = cfg ? getConfig(cfg, account?.accountId) : account?.config || {};
+      const configPath = configPathFor(cfg, account?.accountId);
+      return {
+        policy: config.dmPolicy || 'open',
+        allowFrom: config.allowFrom || [],
+        policyPath: `${configPath}.dmPolicy`,
+        allowFromPath: `${configPath}.allowFrom`,
+        approveHint: 'Use /allow rocketchat:<userId> to approve user',
+        normalizeEntry: (raw: string) => raw.replace(/^(rocketchat|rc|rocket):/i, ''),
+      };
+    },
+  },
+  pairing: {
+    idLabel: 'rocketchatUserId',
+    normalizeAllowEntry: (entry: string) => entry.replace(/^(rocketchat|rc|rocket):/i, ''),
+    notifyApproval: async ({ cfg, id, accountId, meta }: any) => {
+      const config = getConfig(cfg, accountId);
+      // The DM room recorded with the request, or `@username` (`@userId` is not addressable);
+      // requests from before usernames were recorded only carry the display name
+      const target = resolveDirectTarget(config, meta?.roomId, meta?.username ?? meta?.name);
+      if (!target) return;
+      const result = await sendMessage(config, target, '✅ Your access has been approved. You can now chat with the bot.', { accountId });
+      if (!result.ok) {
+        getLogger()?.warn?.(`[RocketChat] Failed to notify approval for ${id}: ${result.error}`);
+      }
+    },
   },
   groups: {
-    resolveRequireMention: ({ cfg }: any): boolean => getConfig(cfg).groupPolicy !== 'open',
+    resolveRequireMention: ({ cfg, accountId, groupId }: any): boolean =>
+      resolveGroupRequireMention(getConfig(cfg, accountId), groupId),
   },
   messaging: {
     normalizeTarget: ({ target }: any) => (target ? { targetId: target.replace(/^(rocketchat|rc|rocket):/i, '') } : null),
@@ -459,25 +1108,33 @@ export const rocketchatPlugin = {
       }
       return { ok: true, to: trimmed };
     },
-    sendText: async ({ cfg, to, text, accountId, log }: any) => {
+    sendText: async ({ cfg, to, text, accountId, threadId, log }: any) => {
       const config = getConfig(cfg, accountId);
       try {
-        const result = await sendMessage(config, to, text, { log, accountId });
+        const result = await sendMessage(config, to, text, { threadId: threadId ?? undefined, log, accountId, durable: true });
         getLogger()?.debug?.(`[RocketChat] sendText: "${text}" result: ${JSON.stringify(result)}`);
         return result.ok ? { ok: true, data: result.data } : { ok: false, error: result.error };
       } catch (err: any) {
         return { ok: false, error: err.response?.data || err.message };
       }
     },
-    sendMedia: async ({ cfg, to, mediaPath, accountId, log }: any) => {
+    sendMedia: async ({ cfg, to, text, mediaUrl, mediaPath, accountId, threadId, log }: any) => {
       const config = getConfig(cfg, accountId);
-      if (!config.webhookUrl) {
+      if (!hasOutboundCredentials(config)) {
         return { ok: false, error: 'Rocket.Chat not configured' };
       }
+      const mediaRef = mediaUrl || mediaPath;
+      if (!mediaRef) {
+        return { ok: false, error: 'Rocket.Chat media message requires a media URL or path' };
+      }
       try {
-        const mediaDescription = `[Media message (not supported yet): ${mediaPath}]`;
-        const result = await sendMessage(config, to, mediaDescription, { log, accountId });
-        getLogger()?.debug?.(`[RocketChat] sendMedia: "${mediaDescription}" result: ${JSON.stringify(result)}`);
+        const result = await sendMediaMessage(config, to, mediaRef, {
+          caption: text,
+          threadId: threadId ?? undefined,
+          log,
+          accountId,
+        });
+        getLogger()?.debug?.(`[RocketChat] sendMedia: "${mediaRef}" result: ${JSON.stringify(result)}`);
         return result.ok ? { ok: true, data: result.data } : { ok: false, error: result.error };
       } catch (err: any) {
         return { ok: false, error: err.response?.data || err.message };
@@ -488,7 +1145,72 @@ export const rocketchatPlugin = {
     startAccount: async (ctx: GatewayStartContext): Promise<GatewayStopResult> => {
       const { account, cfg, abortSignal } = ctx;
       const config = account.config;
-      if (!config.authToken) throw new Error('Rocket.Chat authToken is required');
+
+      if (config.inboundMode === 'realtime') {
+        if (!config.serverUrl || !config.botAuthToken) {
+          throw new Error('Rocket.Chat realtime mode requires serverUrl and botAuthToken');
+        }
+
+        ctx.log?.info?.(`[${account.accountId}] Starting Rocket.Chat realtime listener...`);
+        cleanupOrphanedTempFiles(ctx.log);
+
+        // Slash commands, the health check and metrics are still served over HTTP
+        const unregisterRoutes: Array<() => void> = [];
+        let server: StandaloneServer | undefined;
+        try {
+          const routing = await resolveRouteRegistrar(config, ctx.log);
+          server = routing.server;
+          unregisterRoutes.push(await registerAccountRoute(ctx, 'health', routing.registrar));
+          unregisterRoutes.push(await registerAccountRoute(ctx, 'metrics', routing.registrar));
+          if (resolveAcceptedTokens(config).length) {
+            unregisterRoutes.push(await registerAccountRoute(ctx, 'command', routing.registrar));
+          }
+          await server?.listen();
+        } catch (err: any) {
+          // Messages still arrive over the realtime API; only the HTTP routes are affected
+          reportStartError(ctx, `Failed to register HTTP routes: ${err.message}`);
+        }
+        abortSignal?.addEventListener('abort', () => {
+          void server?.close();
+          flushDedupCache(account.accountId, ctx.log);
+        });
+
+        const stopOutbox = startAccountOutbox(ctx);
+        // botUserId is optional in realtime mode; the login reveals it for REST calls and media downloads
+        let messageConfig = config;
+        const listener = startRealtimeListener({
+          config,
+          accountId: account.accountId,
+          abortSignal,
+          log: ctx.log,
+          onLogin: (userId) => {
+            if (!config.botUserId) messageConfig = { ...config, botUserId: userId };
+          },
+          onMessage: (data) =>
+            enqueueRocketChatMessage({
+              cfg,
+              accountId: account.accountId,
+              data,
+              sessionWebhook: '',
+              log: ctx.log || console,
+              rocketchatConfig: messageConfig,
+              verified: true,
+            }),
+        });
+
+        return {
+          stop: () => {
+            listener.stop();
+            stopOutbox();
+            unregisterRoutes.forEach((unregister) => unregister());
+            void server?.close();
+            flushDedupCache(account.accountId, ctx.log);
+            ctx.log?.info?.(`[${account.accountId}] Rocket.Chat realtime listener stopped`);
+          },
+        };
+      }
+
+      if (!resolveAcceptedTokens(config).length) throw new Error('Rocket.Chat authToken is required');
 
       if (ctx.log?.info) {
         ctx.log.info(`[${account.accountId}] Starting Rocket.Chat webhook listener...`);
@@ -496,29 +1218,30 @@ export const rocketchatPlugin = {
 
       cleanupOrphanedTempFiles(ctx.log);
 
-      // Register webhook endpoint with OpenClaw's HTTP router
-      // Using dynamic imports to access internal modules
+      // Register webhook endpoint with OpenClaw's HTTP router, or on the account's own listener
+      let server: StandaloneServer | undefined;
       try {
-        // Dynamically import the registration function from OpenClaw's plugin system
-        const httpModules = await Promise.all([
-          import('/home/zick/.npm-global/lib/node_modules/openclaw/dist/plugins/http-registry.js'),
-          import('/home/zick/.npm-global/lib/node_modules/openclaw/dist/plugins/http-path.js')
-        ]);
+        const routing = await resolveRouteRegistrar(config, ctx.log);
+        server = routing.server;
+        const { registerPluginHttpRoute, normalizePluginHttpPath } = routing.registrar;
         
-        const { registerPluginHttpRoute } = httpModules[0];
-        const { normalizePluginHttpPath } = httpModules[1];
-        
-        // Define the webhook paths - use the actual token as part of the path
-        // This matches the format that Rocket.Chat uses: /hooks/{token}
-        const configuredAuthToken = config.authToken;
-        const webhookPath = `/hooks/${configuredAuthToken}`;
-        const normalizedPath = normalizePluginHttpPath(webhookPath, `/hooks/rocketchat`);
+        // The webhook path carries no secret; the token is verified from the body or a header.
+        // `legacyWebhookPath` additionally serves the old /hooks/{token} path for every accepted token.
+        const webhookPath = normalizePluginHttpPath(resolveWebhookPath(account.accountId, config), `/hooks/rocketchat`);
+        const webhookPaths: string[] = [webhookPath];
+        if (config.legacyWebhookPath) {
+          for (const token of resolveAcceptedTokens(config)) {
+            webhookPaths.push(normalizePluginHttpPath(`/hooks/${token}`, `/hooks/rocketchat`));
+          }
+        }
         
         // Register the main webhook handler
-        const unregisterWebhook = registerPluginHttpRoute({
+        const unregisterWebhooks = webhookPaths.map((normalizedPath) => registerPluginHttpRoute({
           path: normalizedPath,
           pluginId: 'rocketchat',
           accountId: account.accountId,
+          auth: 'plugin',
+          throwOnFailure: true,
           log: (msg: string) => ctx.log?.debug?.(msg),
           handler: async (req: any, res: any) => {
             // Handle GET requests for verification
@@ -581,18 +1304,21 @@ export const rocketchatPlugin = {
                     }
                   }
                   
-                  // Verify the token - check both body.token and potentially other locations
-                  if (parsedBody.token !== config.authToken) {
-                    ctx.log?.error?.(`[RocketChat] Unauthorized webhook request - token mismatch`);
-                    res.statusCode = 401;
+                  // Verify source address, token and timestamp
+                  const auth = verifyWebhookRequest(config, req, parsedBody);
+                  if (!auth.ok) {
+                    ctx.log?.error?.(`[RocketChat] Unauthorized webhook request - ${auth.reason}`);
+                    recordInbound(account.accountId, 'unauthorized');
+                    res.statusCode = auth.status;
                     res.setHeader('Content-Type', 'application/json');
-                    res.end(JSON.stringify({ error: 'Unauthorized: Invalid token' }));
+                    res.end(JSON.stringify({ error: auth.status === 403 ? 'Forbidden' : 'Unauthorized: Invalid token' }));
                     return;
                   }
                   
                   // Validate required fields from Rocket.Chat data structure
-                  if (!parsedBody.user_id || !parsedBody.text) {
+                  if (!parsedBody.user_id || (!parsedBody.text && !hasInboundMedia(parsedBody))) {
                     ctx.log?.error?.(`[RocketChat] Missing required fields in webhook request`);
+                    recordInbound(account.accountId, 'bad_request');
                     res.statusCode = 400;
                     res.setHeader('Content-Type', 'application/json');
                     res.end(JSON.stringify({ error: 'Bad Request: Missing required fields' }));
@@ -611,33 +1337,22 @@ export const rocketchatPlugin = {
                     response_type: 'ephemeral' // Only visible to the sender
                   }));
 
-                  // Process the message asynchronously after responding to prevent timeouts
-                  setTimeout(async () => {
-                    try {
-                      // Process the message through the standard OpenClaw pipeline
-                      // Use a placeholder for protocol and host since those properties might not be available on raw http req
-                      const sessionWebhookForProcessing = `https://${req.headers.host || 'localhost'}${req.url}`;
-                      
-                      // Import the handleRocketChatMessage function directly from the channel module
-                      const channelModule = await import('./channel');
-                      const handleMsgFunc = channelModule.handleRocketChatMessage || (await import('./webhook-handler')).handleRocketChatMessage;
-                      
-                      await handleMsgFunc({
-                        cfg,
-                        accountId: account.accountId,
-                        data: parsedBody,
-                        sessionWebhook: sessionWebhookForProcessing,
-                        log: ctx.log || console,
-                        rocketchatConfig: config
-                      });
-                    } catch (processingError: any) {
-                      ctx.log?.error?.(`[RocketChat] Error processing message after response: ${processingError.message}`);
-                    }
-                  }, 0);
+                  // Process the message after responding, in order with the rest of its conversation
+                  // Use a placeholder for protocol and host since those properties might not be available on raw http req
+                  enqueueRocketChatMessage({
+                    cfg,
+                    accountId: account.accountId,
+                    data: parsedBody,
+                    sessionWebhook: `https://${req.headers.host || 'localhost'}${req.url}`,
+                    log: ctx.log || console,
+                    rocketchatConfig: config,
+                    verified: true,
+                  });
                   
                 } catch (parseError: any) {
                   ctx.log?.error?.(`[RocketChat] Error parsing request: ${parseError.message}`);
-                  ctx.log?.error?.(`[RocketChat] Raw body: ${body}`);
+                  ctx.log?.debug?.(`[RocketChat] Unparsable body (${body.length} bytes)`);
+                  recordInbound(account.accountId, 'bad_request');
                   res.statusCode = 400;
                   res.setHeader('Content-Type', 'application/json');
                   res.end(JSON.stringify({ error: 'Bad Request: Invalid JSON' }));
@@ -651,73 +1366,68 @@ export const rocketchatPlugin = {
               res.end(JSON.stringify({ error: 'Internal Server Error' }));
             }
           },
-        });
+        }));
 
-        // Register health check endpoint
-        const healthPath = `/hooks/rocketchat/${account.accountId}/health`;
-        const normalizedHealthPath = normalizePluginHttpPath(healthPath, `/hooks/rocketchat/health`);
-        const unregisterHealth = registerPluginHttpRoute({
-          path: normalizedHealthPath,
-          pluginId: 'rocketchat',
-          accountId: account.accountId,
-          log: (msg: string) => ctx.log?.debug?.(msg),
-          handler: (req: any, res: any) => {
-            if (req.method !== 'GET') {
-              res.statusCode = 405;
-              res.setHeader('Allow', 'GET');
-              res.end('Method Not Allowed');
-              return;
-            }
-            
-            res.statusCode = 200;
-            res.setHeader('Content-Type', 'application/json');
-            res.end(JSON.stringify({ 
-              status: 'ok', 
-              service: 'Rocket.Chat webhook handler',
-              timestamp: new Date().toISOString()
-            }));
-          },
-        });
+        const unregisterHealth = await registerAccountRoute(ctx, 'health', routing.registrar);
+        const unregisterMetrics = await registerAccountRoute(ctx, 'metrics', routing.registrar);
+        const unregisterCommand = await registerAccountRoute(ctx, 'command', routing.registrar);
+        const unregisterAction = await registerAccountRoute(ctx, 'action', routing.registrar);
+        await server?.listen();
+
+        inboundRoutes.set(account.accountId, webhookPath);
 
         // Store unregister functions to clean up when stopping
         (globalThis as any).__rocketchat_unregister_functions = (globalThis as any).__rocketchat_unregister_functions || {};
         (globalThis as any).__rocketchat_unregister_functions[account.accountId] = () => {
+          inboundRoutes.delete(account.accountId);
           try {
-            unregisterWebhook();
+            unregisterWebhooks.forEach((unregister: () => void) => unregister());
             unregisterHealth();
+            unregisterMetrics();
+            unregisterCommand();
+            unregisterAction();
           } catch (unregErr: any) {
             ctx.log?.error?.(`[${account.accountId}] Error unregistering endpoints: ${unregErr.message}`);
           }
         };
 
         if (ctx.log?.info) {
-          ctx.log.info(`[${account.accountId}] Rocket.Chat webhook listener ready at ${normalizedPath}`);
+          ctx.log.info(`[${account.accountId}] Rocket.Chat webhook listener ready at ${webhookPath}${config.legacyWebhookPath ? ' (legacy /hooks/<token> paths enabled)' : ''}`);
         }
 
       } catch (error: any) {
-        ctx.log?.error?.(`[${account.accountId}] Failed to register webhook endpoints: ${error.message}`);
-        // Don't throw the error, just log it, so the service can still start
+        void server?.close();
+        // Without its route the account would look started while receiving nothing
+        reportStartError(ctx, `Failed to register webhook endpoints: ${error.message}`);
+        throw error;
       }
 
+      // Unregister the HTTP endpoints, close the standalone listener and persist the dedup cache
+      const releaseEndpoints = () => {
+        try {
+          const unregisterFunctions = (globalThis as any).__rocketchat_unregister_functions;
+          if (unregisterFunctions && unregisterFunctions[account.accountId]) {
+            unregisterFunctions[account.accountId]();
+            delete unregisterFunctions[account.accountId];
+          }
+        } catch (unregErr: any) {
+          ctx.log?.error?.(`[${account.accountId}] Error unregistering endpoints: ${unregErr.message}`);
+        }
+        void server?.close();
+        flushDedupCache(account.accountId, ctx.log);
+      };
+
+      const stopOutbox = startAccountOutbox(ctx);
       let stopped = false;
       if (abortSignal) {
         abortSignal.addEventListener('abort', () => {
           if (stopped) return;
           stopped = true;
+          stopOutbox();
           if (ctx.log?.info) {
             ctx.log.info(`[${account.accountId}] Stopping Rocket.Chat webhook listener...`);
           }
-          
-          // Unregister the HTTP endpoints
-          try {
-            const unregisterFunctions = (globalThis as any).__rocketchat_unregister_functions;
-            if (unregisterFunctions && unregisterFunctions[account.accountId]) {
-              unregisterFunctions[account.accountId]();
-              delete unregisterFunctions[account.accountId];
-            }
-          } catch (unregErr: any) {
-            ctx.log?.error?.(`[${account.accountId}] Error unregistering endpoints: ${unregErr.message}`);
-          }
+          releaseEndpoints();
         });
       }
 
@@ -725,6 +1435,8 @@ export const rocketchatPlugin = {
         stop: () => {
           if (stopped) return;
           stopped = true;
+          stopOutbox();
+          releaseEndpoints();
           if (ctx.log?.info) {
             ctx.log.info(`[${account.accountId}] Rocket.Chat provider stopped`);
           }
@@ -734,15 +1446,9 @@ export const rocketchatPlugin = {
   },
   status: {
     defaultRuntime: { accountId: 'default', running: false, lastStartAt: null, lastStopAt: null, lastError: null },
-    probe: async ({ cfg }: any) => {
-      if (!isConfigured(cfg)) return { ok: false, error: 'Not configured' };
-      try {
-        const config = getConfig(cfg);
-        // Simple test to verify the configuration
-        return { ok: true, details: { webhookUrl: config.webhookUrl } };
-      } catch (error: any) {
-        return { ok: false, error: error.message };
-      }
+    probe: async ({ cfg, account, accountId, timeoutMs }: any) => {
+      const id = account?.accountId ?? accountId ?? 'default';
+      return probeAccount(getConfig(cfg, id), { accountId: id, route: inboundRoutes.get(id), timeoutMs });
     },
     buildChannelSummary: ({ snapshot }: any) => ({
       configured: snapshot?.configured ?? false,
@@ -750,6 +1456,10 @@ export const rocketchatPlugin = {
       lastStartAt: snapshot?.lastStartAt ?? null,
       lastStopAt: snapshot?.lastStopAt ?? null,
       lastError: snapshot?.lastError ?? null,
+      queueRunning: getQueueStats().running,
+      queueDepth: getQueueStats().queued,
+      outboxSize: getOutboxStats().size,
+      outboxOldestAgeMs: getOutboxStats().oldestAgeMs,
     }),
   },
 };
@@ -761,11 +1471,14 @@ export const rocketchatPlugin = {
  *   (e.g. replies within an existing conversation).
  * - {@link sendMessage} sends a message with automatic mode selection
  *   (text/markdown based on config).
+ * - {@link sendMediaMessage} sends an image or file, either by URL attachment or
+ *   by uploading a local file (REST mode).
  * - {@link getLogger} retrieves the current global logger instance
  *   (set by handleRocketChatMessage during inbound message processing).
  * - {@link handleRocketChatMessage} processes inbound messages from Rocket.Chat.
+ * - {@link enqueueRocketChatMessage} queues an inbound message for ordered processing.
  *
  * These exports are intended to be used by external integrations that need
  * direct programmatic access to Rocket.Chat messaging.
  */
-export { sendBySession, sendMessage, getLogger, handleRocketChatMessage };
\ No newline at end of file
+export { sendBySession, sendMessage, sendMediaMessage, getLogger, handleRocketChatMessage, enqueueRocketChatMessage };
\ No newline at end of file
@@ -1,17 +1,260 @@
+import * as net from 'net';
 import { z } from 'zod';
+import { mergeAccountConfig, findAccountConflicts } from './accounts';
+import type { RocketChatConfig } from './types';
 
-// Rocket.Chat 配置 Schema
-export const RocketChatConfigSchema = z.object({
+// 单个频道（群聊）配置 Schema
+export const RocketChatGroupConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  requireMention: z.boolean().optional(),
+  allowFrom: z.array(z.string()).optional().describe('User IDs or @usernames allowed to trigger the bot in this channel'),
+});
+
+// 账号配置字段（顶层与 accounts 共用）
+const RocketChatBaseConfigSchema = z.object({
   enabled: z.boolean().optional().default(true),
-  webhookUrl: z.string().url().describe('Rocket.Chat webhook URL for sending messages'),
-  authToken: z.string().min(1).describe('Authentication token for validating incoming messages'),
+  webhookUrl: z.string().url().optional().describe('Rocket.Chat webhook URL for sending messages'),
+  authToken: z.string().min(1).optional().describe('Authentication token for validating incoming messages'),
+  authTokens: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Additional accepted tokens, so tokens can be rotated without downtime'),
+  metricsToken: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Bearer token for the metrics route; defaults to the webhook tokens'),
+  allowedSourceIps: z
+    .array(
+      z.string().refine((entry) => net.isIP(entry.split('/')[0]) !== 0, { message: 'Expected an IP address or CIDR range' })
+    )
+    .optional()
+    .describe('IP addresses or CIDR ranges allowed to call the webhook'),
+  trustProxy: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Use X-Forwarded-For as the client address (only behind a trusted reverse proxy)'),
+  maxTimestampSkewSeconds: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Reject webhook requests whose timestamp differs from the local clock by more than this'),
+  webhookPath: z
+    .string()
+    .regex(/^\/[^\s?#]*$/, 'Expected an absolute path such as /hooks/rocketchat/main')
+    .optional()
+    .describe('Path of the outgoing webhook route (default /hooks/rocketchat/<accountId>)'),
+  legacyWebhookPath: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Also serve the legacy /hooks/<authToken> path, which exposes the token in URLs'),
+  standaloneServer: z
+    .object({
+      host: z.string().min(1).optional().describe('Interface to listen on (default 0.0.0.0)'),
+      port: z.number().int().min(0).max(65535).describe('Port to listen on'),
+      tlsCert: z.string().min(1).optional().describe('Path to a PEM certificate; enables HTTPS together with tlsKey'),
+      tlsKey: z.string().min(1).optional().describe('Path to the PEM private key of tlsCert'),
+      maxBodyBytes: z.number().int().positive().optional().describe('Largest accepted request body in bytes (default 1 MiB)'),
+    })
+    .refine((server) => Boolean(server.tlsCert) === Boolean(server.tlsKey), {
+      message: 'tlsCert and tlsKey must be set together',
+    })
+    .optional()
+    .describe('Serve the webhook routes from an embedded HTTP(S) server instead of the OpenClaw gateway'),
+  inboundMode: z
+    .enum(['webhook', 'realtime'])
+    .optional()
+    .default('webhook')
+    .describe('How messages are received: outgoing webhook or the realtime (DDP) API as a bot user'),
+  outboundMode: z
+    .enum(['webhook', 'rest'])
+    .optional()
+    .default('webhook')
+    .describe('How replies are sent: incoming webhook or the REST API as a bot user'),
+  serverUrl: z.string().url().optional().describe('Rocket.Chat server URL used by the REST API'),
+  botUserId: z.string().min(1).optional().describe('Bot user ID sent as X-User-Id'),
+  botAuthToken: z.string().min(1).optional().describe('Bot personal access token sent as X-Auth-Token'),
   dmPolicy: z.enum(['open', 'pairing', 'allowlist']).optional().default('open'),
   groupPolicy: z.enum(['open', 'allowlist']).optional().default('open'),
   allowFrom: z.array(z.string()).optional().default(() => []),
+  groupAllowFrom: z
+    .array(z.string())
+    .optional()
+    .describe('User IDs or @usernames allowed to trigger the bot in channels without their own allowFrom'),
+  groups: z
+    .record(z.string(), RocketChatGroupConfigSchema)
+    .optional()
+    .describe('Per-channel settings keyed by channel ID, name or "*"'),
+  requireMention: z.boolean().optional().default(false),
+  botUsername: z.string().optional().describe('Bot username used to detect @mentions (looked up via /api/v1/me when omitted)'),
+  mentionPatterns: z
+    .array(z.string())
+    .optional()
+    .describe('Extra aliases or trigger words that count as mentioning the bot'),
+  groupBlockedAction: z
+    .enum(['ignore', 'notify'])
+    .optional()
+    .default('ignore')
+    .describe('What to do with group messages blocked by groupPolicy or a sender allowlist'),
   messageType: z.enum(['text', 'markdown']).optional().default('markdown'),
   showThinking: z.boolean().optional().default(true),
+  replyInThread: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Always answer group messages in a thread started from the triggering message'),
+  streamMode: z
+    .enum(['off', 'edit'])
+    .optional()
+    .default('off')
+    .describe('Stream replies by editing a single message through chat.update (requires outboundMode "rest")'),
+  streamThrottleMs: z
+    .number()
+    .int()
+    .min(250)
+    .optional()
+    .default(1000)
+    .describe('Minimum interval between streaming edits in milliseconds'),
+  mediaMaxMb: z.number().positive().optional().default(20).describe('Maximum size of downloaded inbound media in MB'),
+  textChunkLimit: z
+    .number()
+    .int()
+    .min(100)
+    .optional()
+    .default(4000)
+    .describe('Maximum characters per message; longer replies are split into several messages'),
+  chunkNumbering: z.boolean().optional().default(false).describe('Prefix split replies with part numbers like [1/3]'),
+  dedupTtlMinutes: z
+    .number()
+    .positive()
+    .optional()
+    .default(60)
+    .describe('How long processed message IDs are remembered to drop redelivered webhooks'),
+  editedMessages: z
+    .enum(['ignore', 'process'])
+    .optional()
+    .default('ignore')
+    .describe('Whether edits of an already processed message are ignored or handled as new input'),
+  maxConcurrent: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(4)
+    .describe('Maximum number of messages processed at the same time, across all accounts (top level only)'),
+  maxQueueDepth: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(50)
+    .describe('Maximum number of messages waiting to be processed; further messages get a busy reply'),
+  deliveryRetries: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(3)
+    .describe('Retries for outbound messages that fail with 429, 5xx or network errors'),
+  roomPacingMs: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(250)
+    .describe('Minimum interval between two outbound messages to the same room in milliseconds'),
+  requestTimeoutMs: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(30000)
+    .describe('Timeout for each request to Rocket.Chat (messages, edits, uploads, media downloads) in milliseconds'),
+  outboxMaxAgeMinutes: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(1440)
+    .describe('How long undelivered replies are kept in the outbox before being dead-lettered, in minutes'),
   debug: z.boolean().optional().default(false),
   name: z.string().optional(),
 });
 
-export type RocketChatConfigType = z.infer<typeof RocketChatConfigSchema>;
\ No newline at end of file
+// 单个账号配置 Schema：未设置的字段继承顶层配置，因此不带默认值
+export const RocketChatAccountConfigSchema = z.object(
+  Object.fromEntries(
+    Object.entries(RocketChatBaseConfigSchema.shape).map(([key, field]) => [
+      key,
+      field instanceof z.ZodDefault ? field.unwrap().describe(field.description ?? '') : field,
+    ])
+  ) as z.ZodRawShape
+);
+
+/**
+ * Required fields of one effective (merged) account config; `path` prefixes the issue paths
+ */
+function checkRequiredFields(config: RocketChatConfig, ctx: z.RefinementCtx, path: string[]): void {
+  if (config.inboundMode === 'realtime') {
+    for (const key of ['serverUrl', 'botAuthToken'] as const) {
+      if (!config[key]) {
+        ctx.addIssue({ code: 'custom', path: [...path, key], message: `${key} is required when inboundMode is "realtime"` });
+      }
+    }
+  } else if (!config.authToken && !config.authTokens?.length) {
+    ctx.addIssue({ code: 'custom', path: [...path, 'authToken'], message: 'authToken is required when inboundMode is "webhook"' });
+  }
+
+  if (config.outboundMode === 'rest') {
+    for (const key of ['serverUrl', 'botUserId', 'botAuthToken'] as const) {
+      if (!config[key]) {
+        ctx.addIssue({ code: 'custom', path: [...path, key], message: `${key} is required when outboundMode is "rest"` });
+      }
+    }
+  } else if (!config.webhookUrl) {
+    ctx.addIssue({ code: 'custom', path: [...path, 'webhookUrl'], message: 'webhookUrl is required when outboundMode is "webhook"' });
+  }
+
+  if (config.streamMode === 'edit' && config.outboundMode !== 'rest') {
+    ctx.addIssue({ code: 'custom', path: [...path, 'streamMode'], message: 'streamMode "edit" requires outboundMode "rest"' });
+  }
+}
+
+// Rocket.Chat 配置 Schema：顶层配置即默认账号；配置了 accounts 时作为各账号的公共默认值
+export const RocketChatConfigSchema = RocketChatBaseConfigSchema.extend({
+  accounts: z
+    .record(z.string(), RocketChatAccountConfigSchema)
+    .optional()
+    .describe('Accounts by ID; unset fields inherit the top-level values'),
+}).superRefine((parsed, ctx) => {
+  const config = parsed as RocketChatConfig;
+  const accountIds = Object.keys(config.accounts || {});
+  if (!accountIds.length) {
+    checkRequiredFields(config, ctx, []);
+    return;
+  }
+
+  for (const accountId of accountIds) {
+    checkRequiredFields(mergeAccountConfig(config, config.accounts![accountId]), ctx, ['accounts', accountId]);
+    // One concurrency cap covers all accounts, so it cannot differ per account
+    if (config.accounts![accountId].maxConcurrent !== undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['accounts', accountId, 'maxConcurrent'],
+        message: 'maxConcurrent is shared by all accounts; set it at the top level',
+      });
+    }
+  }
+  for (const conflict of findAccountConflicts(config)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['accounts', conflict.accountId, conflict.field],
+      message: `${conflict.field} is already used by account "${conflict.conflictsWith}"`,
+    });
+  }
+});
+
+export type RocketChatConfigType = z.infer<typeof RocketChatConfigSchema>;
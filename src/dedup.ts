@@ -0,0 +1,139 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { resolveRocketChatStateDir } from './runtime';
+import type { RocketChatConfig, RocketChatInboundMessage, Logger } from './types';
+
+// Per-account idempotency for inbound messages (webhook retries, realtime re-emits)
+
+const DEFAULT_TTL_MINUTES = 60;
+const MAX_ENTRIES = 5000;
+const SAVE_DELAY_MS = 1000;
+
+type DedupCache = {
+  file: string;
+  // Dedup key -> expiry timestamp, in insertion order
+  entries: Map<string, number>;
+  saveTimer?: ReturnType<typeof setTimeout>;
+};
+
+// Dedup caches by account ID
+const caches = new Map<string, DedupCache>();
+
+function cacheFile(accountId: string): string {
+  return path.join(resolveRocketChatStateDir(), `dedup-${accountId.replace(/[^\w.-]/g, '_')}.json`);
+}
+
+/**
+ * Load the account's cache from disk on first use; unreadable files start an empty cache
+ */
+function getCache(accountId: string, log?: Logger): DedupCache {
+  let cache = caches.get(accountId);
+  if (cache) return cache;
+
+  cache = { file: cacheFile(accountId), entries: new Map() };
+  try {
+    const stored = JSON.parse(fs.readFileSync(cache.file, 'utf8')) as Record<string, number>;
+    const now = Date.now();
+    for (const [key, expiresAt] of Object.entries(stored)) {
+      if (typeof expiresAt === 'number' && expiresAt > now) cache.entries.set(key, expiresAt);
+    }
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') log?.warn?.(`[RocketChat] Failed to load dedup cache ${cache.file}: ${err.message}`);
+  }
+  caches.set(accountId, cache);
+  return cache;
+}
+
+function prune(cache: DedupCache): void {
+  const now = Date.now();
+  for (const [key, expiresAt] of cache.entries) {
+    if (expiresAt <= now) cache.entries.delete(key);
+  }
+  // Oldest keys go first when the cache is over its bound
+  const overflow = cache.entries.size - MAX_ENTRIES;
+  if (overflow > 0) {
+    for (const key of [...cache.entries.keys()].slice(0, overflow)) cache.entries.delete(key);
+  }
+}
+
+function saveCache(cache: DedupCache, log?: Logger): void {
+  try {
+    fs.mkdirSync(path.dirname(cache.file), { recursive: true });
+    const tmpFile = `${cache.file}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(Object.fromEntries(cache.entries)));
+    fs.renameSync(tmpFile, cache.file);
+  } catch (err: any) {
+    log?.warn?.(`[RocketChat] Failed to save dedup cache ${cache.file}: ${err.message}`);
+  }
+}
+
+/**
+ * Write the cache shortly after changes, batching bursts of messages into one write
+ */
+function scheduleSave(cache: DedupCache, log?: Logger): void {
+  if (cache.saveTimer) return;
+  cache.saveTimer = setTimeout(() => {
+    cache.saveTimer = undefined;
+    saveCache(cache, log);
+  }, SAVE_DELAY_MS);
+  cache.saveTimer.unref?.();
+}
+
+/**
+ * Write the account's pending cache changes now; called when the account stops so the last
+ * second of message IDs survives a restart
+ */
+export function flushDedupCache(accountId: string, log?: Logger): void {
+  const cache = caches.get(accountId);
+  if (!cache?.saveTimer) return;
+  clearTimeout(cache.saveTimer);
+  cache.saveTimer = undefined;
+  saveCache(cache, log);
+}
+
+/**
+ * Edit events reuse the original message_id; with `editedMessages: 'process'` each edit gets its own key
+ */
+function dedupKey(data: RocketChatInboundMessage): string {
+  if (data.editedAt) return `${data.message_id}@${data.editedAt}`;
+  if (data.isEdited) {
+    // Webhook edit events may lack editedAt; the edited text tells the revisions apart
+    return `${data.message_id}@${crypto.createHash('sha1').update(data.text || '').digest('hex').slice(0, 12)}`;
+  }
+  return data.message_id;
+}
+
+/**
+ * Check an inbound message against the account's recent message IDs and remember it.
+ * Returns true (and logs) for redeliveries, and for edits unless `editedMessages` is 'process'.
+ */
+export function isDuplicateMessage(params: {
+  accountId: string;
+  config: RocketChatConfig;
+  data: RocketChatInboundMessage;
+  log?: Logger;
+}): boolean {
+  const { accountId, config, data, log } = params;
+  if (!data.message_id) return false;
+
+  const isEdit = Boolean(data.isEdited || data.editedAt);
+  if (isEdit && (config.editedMessages || 'ignore') === 'ignore') {
+    log?.info?.(`[RocketChat] Ignoring edit of message ${data.message_id} (editedMessages=ignore)`);
+    return true;
+  }
+
+  const cache = getCache(accountId, log);
+  const key = dedupKey(data);
+  const now = Date.now();
+  const expiresAt = cache.entries.get(key);
+  if (expiresAt && expiresAt > now) {
+    log?.info?.(`[RocketChat] Duplicate delivery of message ${key} from ${data.user_name || data.user_id}, skipping`);
+    return true;
+  }
+
+  cache.entries.set(key, now + (config.dedupTtlMinutes ?? DEFAULT_TTL_MINUTES) * 60 * 1000);
+  prune(cache);
+  scheduleSave(cache, log);
+  return false;
+}
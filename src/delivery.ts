@@ -0,0 +1,168 @@
+import { retryWithBackoff } from '../utils';
+import type { RocketChatConfig, Logger } from './types';
+
+// Outbound delivery: retries for transient failures, rate-limit handling and per-room pacing
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_ROOM_PACING_MS = 250;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30 * 1000;
+const RETRY_BASE_DELAY_MS = 1000;
+// Longer waits than this are reported as failures instead of holding up the conversation
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+// Besides these, every 5xx is retryable
+const RETRYABLE_STATUS = new Set([408, 425, 429]);
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || RETRYABLE_STATUS.has(status);
+}
+
+/**
+ * A failed delivery, classified for the dispatcher.
+ * `retryable` failures were retried before being reported; the rest (4xx, rejected payloads) fail immediately.
+ */
+export class RocketChatDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryable = false,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'RocketChatDeliveryError';
+  }
+}
+
+// Server key -> time until which sends are held back (429 or exhausted X-RateLimit-Remaining)
+const blockedUntil = new Map<string, number>();
+
+// Room key -> earliest time the next message may be sent
+const roomNextSendAt = new Map<string, number>();
+
+/**
+ * Timeout for a single outbound HTTP request; a request that times out is retried like other network failures
+ */
+export function resolveRequestTimeout(config: RocketChatConfig): number {
+  return config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function serverKey(config: RocketChatConfig): string {
+  const base = config.outboundMode === 'rest' ? config.serverUrl : config.webhookUrl;
+  try {
+    return new URL(base || '').host;
+  } catch {
+    return base || 'default';
+  }
+}
+
+/**
+ * Parse Retry-After (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Rocket.Chat reports X-RateLimit-Reset as epoch milliseconds; older proxies send seconds
+ */
+function parseRateLimitReset(value: unknown): number | undefined {
+  const reset = Number(value);
+  if (!Number.isFinite(reset) || reset <= 0) return undefined;
+  return reset < 1e12 ? reset * 1000 : reset;
+}
+
+/**
+ * Hold back further sends to a server until its rate-limit window resets
+ */
+export function noteRateLimitHeaders(config: RocketChatConfig, headers: any): void {
+  if (!headers) return;
+  const remaining = Number(headers['x-ratelimit-remaining']);
+  const reset = parseRateLimitReset(headers['x-ratelimit-reset']);
+  if (remaining === 0 && reset && reset > Date.now()) {
+    const key = serverKey(config);
+    blockedUntil.set(key, Math.max(blockedUntil.get(key) ?? 0, reset));
+  }
+}
+
+/**
+ * Classify an axios (or other) error as a delivery failure
+ */
+export function toDeliveryError(err: any): RocketChatDeliveryError {
+  if (err instanceof RocketChatDeliveryError) return err;
+
+  const response = err?.response;
+  if (!response) {
+    // A request that got no response (DNS, unreachable host, reset, timeout) may succeed later;
+    // errors raised before any request was made will not
+    const retryable = Boolean(err?.isAxiosError || err?.request || err?.code);
+    return new RocketChatDeliveryError(err?.message || String(err), undefined, retryable);
+  }
+
+  const status: number = response.status;
+  const detail = response.data?.error || response.data?.message || err.message;
+  let retryAfterMs = parseRetryAfter(response.headers?.['retry-after']);
+  const reset = parseRateLimitReset(response.headers?.['x-ratelimit-reset']);
+  if (status === 429 && retryAfterMs === undefined && reset) retryAfterMs = Math.max(0, reset - Date.now());
+
+  const retryable = isRetryableStatus(status) && (retryAfterMs === undefined || retryAfterMs <= MAX_RETRY_AFTER_MS);
+  return new RocketChatDeliveryError(`HTTP ${status}: ${detail}`, status, retryable, retryAfterMs);
+}
+
+/**
+ * Wait for the server's rate-limit window and the room's pacing slot
+ */
+async function waitForTurn(config: RocketChatConfig, roomId: string): Promise<void> {
+  const key = serverKey(config);
+  const blocked = (blockedUntil.get(key) ?? 0) - Date.now();
+  if (blocked > 0) await sleep(blocked);
+
+  const roomKey = `${key}:${roomId}`;
+  const now = Date.now();
+  const sendAt = Math.max(now, roomNextSendAt.get(roomKey) ?? 0);
+  roomNextSendAt.set(roomKey, sendAt + (config.roomPacingMs ?? DEFAULT_ROOM_PACING_MS));
+  if (sendAt > now) await sleep(sendAt - now);
+}
+
+/**
+ * Send one message to a room: paced per room, held back while the server is rate limiting,
+ * and retried on transient failures (429 honoring Retry-After, 5xx, network errors).
+ * Throws a RocketChatDeliveryError once retries are exhausted or the failure is not retryable.
+ */
+export async function deliverWithRetry<T>(
+  config: RocketChatConfig,
+  roomId: string,
+  send: () => Promise<T>,
+  log?: Logger
+): Promise<T> {
+  return retryWithBackoff(
+    async () => {
+      await waitForTurn(config, roomId);
+      try {
+        return await send();
+      } catch (err: any) {
+        const failure = toDeliveryError(err);
+        if (failure.status === 429 && failure.retryAfterMs) {
+          const key = serverKey(config);
+          blockedUntil.set(key, Math.max(blockedUntil.get(key) ?? 0, Date.now() + failure.retryAfterMs));
+        }
+        throw failure;
+      }
+    },
+    {
+      maxRetries: config.deliveryRetries ?? DEFAULT_RETRIES,
+      delayMs: RETRY_BASE_DELAY_MS,
+      log,
+      shouldRetry: (error: RocketChatDeliveryError) => error.retryable,
+      // Rate-limited sends wait in waitForTurn, so no extra backoff is added on top
+      getDelay: (error: RocketChatDeliveryError) => (error.status === 429 && error.retryAfterMs !== undefined ? 0 : undefined),
+    }
+  );
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import { PassThrough } from 'stream';
+import type { RocketChatStandaloneServerConfig, Logger } from './types';
+
+// Embedded HTTP(S) listener for accounts that do not use OpenClaw's shared HTTP registry
+
+const DEFAULT_HOST = '0.0.0.0';
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+type RouteHandler = (req: any, res: any) => unknown;
+
+export type StandaloneServer = {
+  // Same shape as the SDK route registry, so route setup does not depend on the listener
+  registrar: {
+    registerPluginHttpRoute: (params: { path: string; handler: RouteHandler; [key: string]: any }) => () => void;
+    normalizePluginHttpPath: (path: string, fallback: string) => string;
+  };
+  listen: () => Promise<void>;
+  close: () => Promise<void>;
+};
+
+function normalizePath(path: string, fallback: string): string {
+  const trimmed = (path || fallback).trim().replace(/\/+$/, '');
+  if (!trimmed) return '/';
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+function sendStatus(res: http.ServerResponse, status: number, error: string): void {
+  if (res.headersSent) return;
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error }));
+}
+
+/**
+ * Read the request body up to `maxBytes`; resolves undefined (after answering 413) when it is larger
+ */
+function readLimitedBody(req: http.IncomingMessage, res: http.ServerResponse, maxBytes: number): Promise<Buffer | undefined> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length']) > maxBytes) {
+      sendStatus(res, 413, 'Payload Too Large');
+      req.resume();
+      resolve(undefined);
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        sendStatus(res, 413, 'Payload Too Large');
+        req.destroy();
+        resolve(undefined);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Create a listener serving the routes registered through `registrar`.
+ * Bodies are read (within `maxBodyBytes`) before dispatch and replayed to the route handler,
+ * which therefore sees the same request interface as under the shared registry.
+ */
+export function createStandaloneServer(options: RocketChatStandaloneServerConfig, log?: Logger): StandaloneServer {
+  const routes = new Map<string, RouteHandler>();
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const useTls = Boolean(options.tlsCert && options.tlsKey);
+
+  const onRequest = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const pathname = normalizePath(new URL(req.url || '/', 'http://localhost').pathname, '/');
+    const handler = routes.get(pathname);
+    if (!handler) {
+      req.resume();
+      sendStatus(res, 404, 'Not Found');
+      return;
+    }
+
+    try {
+      const body = await readLimitedBody(req, res, maxBodyBytes);
+      if (!body) return;
+
+      const replay = new PassThrough();
+      replay.end(body);
+      const request = Object.assign(replay, {
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        socket: req.socket,
+        protocol: useTls ? 'https' : 'http',
+      });
+      await handler(request, res);
+    } catch (err: any) {
+      log?.error?.(`[RocketChat] Standalone server error on ${pathname}: ${err.message}`);
+      sendStatus(res, 500, 'Internal Server Error');
+    }
+  };
+
+  const server = useTls
+    ? https.createServer({ cert: fs.readFileSync(options.tlsCert!), key: fs.readFileSync(options.tlsKey!) }, onRequest)
+    : http.createServer(onRequest);
+
+  return {
+    registrar: {
+      registerPluginHttpRoute: ({ path, handler }) => {
+        if (routes.has(path)) throw new Error(`Route ${path} is already registered on the standalone server`);
+        routes.set(path, handler);
+        return () => {
+          if (routes.get(path) === handler) routes.delete(path);
+        };
+      },
+      normalizePluginHttpPath: normalizePath,
+    },
+    listen: () =>
+      new Promise((resolve, reject) => {
+        const host = options.host || DEFAULT_HOST;
+        server.once('error', reject);
+        server.listen(options.port, host, () => {
+          server.off('error', reject);
+          const address = server.address();
+          const port = address && typeof address === 'object' ? address.port : options.port;
+          log?.info?.(`[RocketChat] Standalone ${useTls ? 'HTTPS' : 'HTTP'} server listening on ${host}:${port}`);
+          resolve();
+        });
+      }),
+    close: () =>
+      new Promise((resolve) => {
+        if (!server.listening) {
+          resolve();
+          return;
+        }
+        server.close(() => resolve());
+        // Keep-alive connections would otherwise hold the port until they time out
+        server.closeAllConnections?.();
+      }),
+  };
+}
@@ -0,0 +1,239 @@
+// CommonMark (as emitted by agents) to Rocket.Chat message formatting
+
+type RenderMode = 'markdown' | 'text';
+type ColumnAlign = 'left' | 'right' | 'center';
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{1,}:?\s*(\|\s*:?-{1,}:?\s*)*\|?\s*$/;
+const RULE_TEXT = '──────────';
+// Rocket.Chat collapses leading spaces, so nested list levels are indented with em spaces
+const NEST_INDENT = '\u2003\u2003';
+
+/**
+ * Display width of a string, counting CJK and full-width characters as two columns
+ */
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const wide =
+      (code >= 0x1100 && code <= 0x115f) ||
+      (code >= 0x2e80 && code <= 0xa4cf) ||
+      (code >= 0xac00 && code <= 0xd7a3) ||
+      (code >= 0xf900 && code <= 0xfaff) ||
+      (code >= 0xfe30 && code <= 0xfe4f) ||
+      (code >= 0xff00 && code <= 0xff60) ||
+      (code >= 0xffe0 && code <= 0xffe6) ||
+      (code >= 0x1f300 && code <= 0x1faff);
+    width += wide ? 2 : 1;
+  }
+  return width;
+}
+
+/**
+ * Render inline syntax: code spans, links, images and emphasis.
+ * Code spans and URLs are set aside first so their underscores and asterisks are left alone.
+ */
+function renderInline(text: string, mode: RenderMode): string {
+  const protectedSpans: string[] = [];
+  const protect = (value: string) => `\u0000${protectedSpans.push(value) - 1}\u0000`;
+
+  let result = text
+    .replace(/(`+)(.+?)\1/g, (_, _ticks, code: string) => protect(mode === 'markdown' ? `\`${code.trim()}\`` : code.trim()))
+    .replace(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_, alt: string, url: string) =>
+      protect(mode === 'markdown' ? `[${alt || url}](${url})` : alt ? `${alt} (${url})` : url)
+    )
+    .replace(/\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_, label: string, url: string) => {
+      const rendered = renderEmphasis(label, mode);
+      if (mode === 'markdown') return protect(`[${rendered}](${url})`);
+      return protect(rendered === url ? url : `${rendered} (${url})`);
+    })
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, (_, url: string) => protect(url))
+    .replace(/https?:\/\/[^\s<>()]+/g, (url) => protect(url));
+
+  result = renderEmphasis(result, mode);
+  if (mode === 'text') {
+    result = result.replace(/\\([\\`*_{}[\]()#+\-.!|~>])/g, '$1');
+  }
+  // eslint-disable-next-line no-control-regex
+  return result.replace(/\u0000(\d+)\u0000/g, (_, index: string) => protectedSpans[Number(index)]);
+}
+
+/**
+ * CommonMark `**bold**` / `*italic*` / `~~strike~~` to Rocket.Chat `*bold*` / `_italic_` / `~strike~`,
+ * or to bare text in plain-text mode
+ */
+function renderEmphasis(text: string, mode: RenderMode): string {
+  const bold = mode === 'markdown' ? '\u0001' : '';
+  const italic = mode === 'markdown' ? '_' : '';
+  const strike = mode === 'markdown' ? '~' : '';
+
+  let result = text
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, `${bold}$1${bold}`)
+    .replace(/(^|[^\w])__(?=\S)(.+?)(?<=\S)__(?!\w)/g, `$1${bold}$2${bold}`)
+    .replace(/(^|[^*\w\\])\*(?=[^\s*])([^*]*?)(?<=[^\s\\])\*(?![*\w])/g, `$1${italic}$2${italic}`)
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, `${strike}$1${strike}`);
+
+  if (mode === 'text') {
+    result = result.replace(/(^|[^\w\\])_(?=\S)([^_]+?)(?<=\S)_(?!\w)/g, '$1$2');
+  }
+  // eslint-disable-next-line no-control-regex
+  return result.replace(/\u0001/g, '*');
+}
+
+/**
+ * Split a table row into trimmed cells (escaped pipes stay in the cell)
+ */
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Render a table as aligned columns; in markdown mode it is wrapped in a code block so the alignment survives
+ */
+function renderTable(lines: string[], mode: RenderMode): string[] {
+  const aligns: ColumnAlign[] = splitTableRow(lines[1]).map((cell) => {
+    if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+    return cell.endsWith(':') ? 'right' : 'left';
+  });
+  const rows = [lines[0], ...lines.slice(2)].map((line) => splitTableRow(line).map((cell) => renderInline(cell, 'text')));
+  const columns = Math.max(aligns.length, ...rows.map((row) => row.length));
+  const widths = Array.from({ length: columns }, (_, column) =>
+    Math.max(3, ...rows.map((row) => displayWidth(row[column] ?? '')))
+  );
+
+  const pad = (value: string, column: number) => {
+    const gap = widths[column] - displayWidth(value);
+    switch (aligns[column]) {
+      case 'right':
+        return ' '.repeat(gap) + value;
+      case 'center':
+        return ' '.repeat(Math.floor(gap / 2)) + value + ' '.repeat(Math.ceil(gap / 2));
+      default:
+        return value + ' '.repeat(gap);
+    }
+  };
+  const formatRow = (row: string[]) => widths.map((_, column) => pad(row[column] ?? '', column)).join(' | ').trimEnd();
+
+  const output = [formatRow(rows[0]), widths.map((width) => '-'.repeat(width)).join('-+-'), ...rows.slice(1).map(formatRow)];
+  return mode === 'markdown' ? ['```', ...output, '```'] : output;
+}
+
+/**
+ * Convert agent markdown line by line, leaving fenced code blocks untouched
+ */
+function convert(text: string, mode: RenderMode): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const output: string[] = [];
+  // Indent widths of the currently open list levels
+  const listIndents: number[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const marker = line.match(FENCE_PATTERN)?.[1];
+
+    if (fence) {
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length && !line.trim().slice(marker.length)) {
+        fence = null;
+        if (mode === 'markdown') output.push(line.trim());
+      } else {
+        output.push(line);
+      }
+      continue;
+    }
+
+    if (marker) {
+      fence = marker;
+      listIndents.length = 0;
+      if (mode === 'markdown') output.push(line.trim());
+      continue;
+    }
+
+    // Tables: a row followed by a separator row
+    if (line.includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_SEPARATOR_PATTERN.test(lines[i + 1])) {
+      const tableLines = [line, lines[i + 1]];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        tableLines.push(lines[i]);
+        i++;
+      }
+      i--;
+      listIndents.length = 0;
+      output.push(...renderTable(tableLines, mode));
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      listIndents.length = 0;
+      const content = renderInline(heading[1], 'text');
+      output.push(mode === 'markdown' && content ? `*${content}*` : content);
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      listIndents.length = 0;
+      output.push(RULE_TEXT);
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      const indent = item[1].replace(/\t/g, '    ').length;
+      while (listIndents.length && indent < listIndents[listIndents.length - 1]) listIndents.pop();
+      if (!listIndents.length || indent > listIndents[listIndents.length - 1]) listIndents.push(indent);
+      const level = listIndents.length - 1;
+
+      const ordered = /^\d/.test(item[2]);
+      const bullet = ordered ? item[2] : level > 0 ? '◦' : mode === 'markdown' ? '-' : '•';
+      let content = item[3];
+      const task = content.match(TASK_PATTERN);
+      if (task) {
+        content = `${task[1] === ' ' ? '☐' : '☑'} ${task[2]}`;
+      }
+      output.push(`${NEST_INDENT.repeat(level)}${bullet} ${renderInline(content, mode)}`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      output.push('');
+      continue;
+    }
+
+    // Indented continuation lines stay with the list; anything else ends it
+    if (!/^\s/.test(line)) listIndents.length = 0;
+
+    const quote = line.match(/^\s{0,3}>\s?(.*)$/);
+    if (quote) {
+      output.push(`> ${renderInline(quote[1], mode)}`.trimEnd());
+      continue;
+    }
+
+    const continuation = listIndents.length ? NEST_INDENT.repeat(listIndents.length) : '';
+    output.push(`${continuation}${renderInline(line.trim(), mode)}`);
+  }
+
+  return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Convert CommonMark to Rocket.Chat markdown: headings become bold lines, tables become aligned code blocks,
+ * emphasis and links use Rocket.Chat syntax and task lists render as ☐ / ☑
+ */
+export function toRocketChatMarkdown(text: string): string {
+  return convert(text, 'markdown');
+}
+
+/**
+ * Render CommonMark as plain text for `messageType: 'text'`: markup is removed, links keep their URL
+ * and tables keep their column alignment
+ */
+export function toPlainText(text: string): string {
+  return convert(text, 'text');
+}
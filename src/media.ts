@@ -0,0 +1,223 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { buildAuthHeaders } from './rest-client';
+import { resolveRequestTimeout } from './delivery';
+import type {
+  RocketChatConfig,
+  RocketChatInboundMessage,
+  RocketChatAttachment,
+  InboundMediaRef,
+  MediaFile,
+  OutboundMedia,
+  Logger,
+} from './types';
+
+// Rocket.Chat media helpers
+
+const DEFAULT_MEDIA_MAX_MB = 20;
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.bmp': 'image/bmp',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.json': 'application/json',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+/**
+ * Guess a MIME type from a file name or URL path
+ */
+export function detectMimeType(fileName: string): string {
+  const clean = fileName.split(/[?#]/)[0];
+  return MIME_TYPES[path.extname(clean).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Build a MediaFile for a local path with its detected MIME type
+ */
+export function toMediaFile(filePath: string): MediaFile {
+  return { path: filePath, mimeType: detectMimeType(filePath) };
+}
+
+/**
+ * Pick a file extension for a MIME type (used for temp file names)
+ */
+function extensionForMimeType(mimeType: string): string {
+  const entry = Object.entries(MIME_TYPES).find(([, type]) => type === mimeType);
+  return entry ? entry[0] : '';
+}
+
+/**
+ * Collect downloadable media from the `attachments`, `file` and `files` fields of an inbound message
+ */
+export function resolveInboundAttachments(data: RocketChatInboundMessage): InboundMediaRef[] {
+  const files = data.files?.length ? data.files : data.file ? [data.file] : [];
+  const refs: InboundMediaRef[] = [];
+
+  for (const attachment of data.attachments ?? []) {
+    const url = attachment.image_url || attachment.audio_url || attachment.video_url || attachment.title_link;
+    if (!url || (!attachment.title_link_download && attachment.type !== 'file' && !attachment.image_url)) continue;
+
+    const file = files.find((f) => f.name === attachment.title);
+    const mimeType =
+      attachment.image_type ||
+      attachment.audio_type ||
+      attachment.video_type ||
+      file?.type ||
+      detectMimeType(attachment.title || url);
+    refs.push({ url, mimeType, name: attachment.title });
+  }
+
+  // Files without a generated attachment are addressed through the upload route
+  if (refs.length === 0) {
+    for (const file of files) {
+      refs.push({
+        url: `/file-upload/${file._id}/${encodeURIComponent(file.name)}`,
+        mimeType: file.type || detectMimeType(file.name),
+        name: file.name,
+      });
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Whether an inbound message carries any file or attachment
+ */
+export function hasInboundMedia(data: Partial<RocketChatInboundMessage>): boolean {
+  return Boolean(data.file || data.files?.length || data.attachments?.length);
+}
+
+/**
+ * Placeholder body for messages that only contain media
+ */
+export function describeMedia(refs: InboundMediaRef[]): string {
+  return refs
+    .map((ref) => {
+      if (ref.mimeType.startsWith('image/')) return '<media:image>';
+      if (ref.mimeType.startsWith('audio/')) return '<media:audio>';
+      if (ref.mimeType.startsWith('video/')) return '<media:video>';
+      return '<media:document>';
+    })
+    .join(' ');
+}
+
+/**
+ * Download inbound media into `rocketchat_`-prefixed temp files.
+ * Bot credentials are only sent to the Rocket.Chat server itself.
+ * Files that fail to download or exceed `mediaMaxMb` are skipped.
+ */
+export async function downloadInboundMedia(
+  config: RocketChatConfig,
+  refs: InboundMediaRef[],
+  options: { siteUrl?: string; log?: Logger } = {}
+): Promise<MediaFile[]> {
+  const { log } = options;
+  const baseUrl = (config.serverUrl || options.siteUrl || '').replace(/\/+$/, '');
+  const maxBytes = (config.mediaMaxMb ?? DEFAULT_MEDIA_MAX_MB) * 1024 * 1024;
+  const files: MediaFile[] = [];
+
+  for (const ref of refs) {
+    try {
+      const url = /^https?:\/\//i.test(ref.url) ? ref.url : `${baseUrl}${ref.url.startsWith('/') ? '' : '/'}${ref.url}`;
+      const sameHost = Boolean(baseUrl) && new URL(url).host === new URL(baseUrl).host;
+      const headers = sameHost && config.botUserId && config.botAuthToken ? buildAuthHeaders(config) : {};
+
+      const result = await axios({
+        url,
+        method: 'GET',
+        responseType: 'arraybuffer',
+        headers,
+        maxContentLength: maxBytes,
+        timeout: resolveRequestTimeout(config),
+      });
+
+      const mimeType = ref.mimeType || String(result.headers['content-type'] || '').split(';')[0] || 'application/octet-stream';
+      const ext = path.extname(ref.name || '') || extensionForMimeType(mimeType);
+      const filePath = path.join(
+        os.tmpdir(),
+        `rocketchat_${Date.now()}_${Math.random().toString(36).slice(2, 10)}${ext}`
+      );
+      fs.writeFileSync(filePath, Buffer.from(result.data));
+      files.push({ path: filePath, mimeType });
+
+      log?.debug?.(`[RocketChat] Downloaded inbound media to ${filePath} (${mimeType})`);
+    } catch (err: any) {
+      log?.warn?.(`[RocketChat] Failed to download inbound media ${ref.name || ref.url}: ${err.message}`);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Remove temp files created by downloadInboundMedia
+ */
+export function cleanupMediaFiles(files: MediaFile[], log?: Logger): void {
+  for (const file of files) {
+    try {
+      fs.unlinkSync(file.path);
+    } catch (err: any) {
+      log?.debug?.(`[RocketChat] Failed to remove temp media ${file.path}: ${err.message}`);
+    }
+  }
+}
+
+/**
+ * Classify an outbound media reference as a remote URL or a local file.
+ * Remote URLs without a recognizable extension are probed with HEAD for their Content-Type.
+ */
+export async function resolveOutboundMedia(ref: string): Promise<OutboundMedia> {
+  if (/^https?:\/\//i.test(ref)) {
+    const name = decodeURIComponent(path.basename(new URL(ref).pathname)) || 'file';
+    let mimeType = detectMimeType(name);
+    if (mimeType === 'application/octet-stream') {
+      try {
+        const head = await axios({ url: ref, method: 'HEAD', timeout: 5000 });
+        mimeType = String(head.headers['content-type'] || '').split(';')[0].trim() || mimeType;
+      } catch {
+        // Keep the generic type; the file is still delivered as a download link
+      }
+    }
+    return { kind: 'url', location: ref, mimeType, name };
+  }
+
+  const filePath = ref.startsWith('file://') ? fileURLToPath(ref) : ref;
+  return { kind: 'file', location: filePath, mimeType: detectMimeType(filePath), name: path.basename(filePath) };
+}
+
+/**
+ * Attachment for media that is already reachable by URL: images are embedded, other files become download links
+ */
+export function buildMediaAttachment(media: OutboundMedia): RocketChatAttachment {
+  if (media.mimeType.startsWith('image/')) {
+    return { title: media.name, image_url: media.location };
+  }
+  return { title: media.name, title_link: media.location, title_link_download: true };
+}
@@ -0,0 +1,68 @@
+import { getMe, isRestConfigured } from './rest-client';
+import type { RocketChatConfig, Logger } from './types';
+
+// Bot mention detection for group messages
+
+// Usernames looked up through /api/v1/me, keyed by bot user ID
+const botUsernameCache = new Map<string, string>();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Resolve the bot username: `botUsername` from config, otherwise looked up once through the REST API
+ */
+export async function resolveBotUsername(config: RocketChatConfig, log?: Logger): Promise<string | undefined> {
+  if (config.botUsername) return config.botUsername.replace(/^@/, '');
+  if (!isRestConfigured(config)) return undefined;
+
+  const cached = botUsernameCache.get(config.botUserId!);
+  if (cached) return cached;
+
+  try {
+    const me = await getMe(config);
+    botUsernameCache.set(config.botUserId!, me.username);
+    return me.username;
+  } catch (err: any) {
+    log?.warn?.(`[RocketChat] Failed to resolve bot username: ${err.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Build matchers for `@botusername` and the configured `mentionPatterns` (aliases or trigger words)
+ */
+export function buildMentionMatchers(config: RocketChatConfig, botUsername?: string): RegExp[] {
+  const names = [botUsername ? `@${botUsername}` : undefined, ...(config.mentionPatterns ?? [])]
+    .map((value) => value?.trim())
+    .filter((value): value is string => Boolean(value));
+
+  // Names must not sit inside a longer handle, email address or word: usernames may contain dots and dashes,
+  // and a trailing dot only ends the mention when no word character follows
+  return names.map((name) => new RegExp(`(^|[^\\w@.-])${escapeRegExp(name)}(?![\\w@-]|\\.\\w)`, 'gi'));
+}
+
+/**
+ * Detect whether the text addresses the bot and return it with the mentions removed
+ */
+export function detectMention(text: string, matchers: RegExp[]): { mentioned: boolean; stripped: string } {
+  let mentioned = false;
+  let stripped = text;
+
+  for (const matcher of matchers) {
+    stripped = stripped.replace(matcher, (_match, prefix: string) => {
+      mentioned = true;
+      return prefix;
+    });
+  }
+
+  if (!mentioned) return { mentioned, stripped: text };
+
+  stripped = stripped
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/[ \t]+([,.;:!?])/g, '$1')
+    .replace(/^[\s,.:;]+/, '')
+    .trim();
+  return { mentioned, stripped };
+}
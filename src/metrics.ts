@@ -0,0 +1,151 @@
+// Per-account channel metrics, rendered in the Prometheus text exposition format
+
+export type InboundOutcome = 'accepted' | 'unauthorized' | 'bad_request' | 'blocked' | 'duplicate';
+export type OutboundResult = 'sent' | 'failed' | 'queued';
+
+const INBOUND_OUTCOMES: InboundOutcome[] = ['accepted', 'unauthorized', 'bad_request', 'blocked', 'duplicate'];
+const OUTBOUND_RESULTS: OutboundResult[] = ['sent', 'failed', 'queued'];
+
+// Bucket upper bounds in seconds
+const DELIVERY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const TURNAROUND_BUCKETS = [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+type Histogram = {
+  buckets: number[];
+  // Non-cumulative count per bucket; the last slot is +Inf
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+type AccountMetrics = {
+  inbound: Record<InboundOutcome, number>;
+  outbound: Record<OutboundResult, number>;
+  delivery: Histogram;
+  turnaround: Histogram;
+  inFlight: number;
+};
+
+// Metrics by account ID
+const accounts = new Map<string, AccountMetrics>();
+
+function createHistogram(buckets: number[]): Histogram {
+  return { buckets, counts: new Array(buckets.length + 1).fill(0), sum: 0, count: 0 };
+}
+
+function getMetrics(accountId: string): AccountMetrics {
+  let metrics = accounts.get(accountId);
+  if (!metrics) {
+    metrics = {
+      inbound: Object.fromEntries(INBOUND_OUTCOMES.map((outcome) => [outcome, 0])) as Record<InboundOutcome, number>,
+      outbound: Object.fromEntries(OUTBOUND_RESULTS.map((result) => [result, 0])) as Record<OutboundResult, number>,
+      delivery: createHistogram(DELIVERY_BUCKETS),
+      turnaround: createHistogram(TURNAROUND_BUCKETS),
+      inFlight: 0,
+    };
+    accounts.set(accountId, metrics);
+  }
+  return metrics;
+}
+
+function observe(histogram: Histogram, seconds: number): void {
+  const index = histogram.buckets.findIndex((bound) => seconds <= bound);
+  histogram.counts[index === -1 ? histogram.buckets.length : index]++;
+  histogram.sum += seconds;
+  histogram.count++;
+}
+
+/**
+ * Count an inbound message by what happened to it
+ */
+export function recordInbound(accountId: string, outcome: InboundOutcome): void {
+  getMetrics(accountId).inbound[outcome]++;
+}
+
+/**
+ * Count an outbound message; `durationMs` (including retries) feeds the delivery latency histogram
+ */
+export function recordOutbound(accountId: string, result: OutboundResult, durationMs?: number): void {
+  const metrics = getMetrics(accountId);
+  metrics.outbound[result]++;
+  if (durationMs !== undefined) observe(metrics.delivery, durationMs / 1000);
+}
+
+/**
+ * Time from accepting an inbound message until the agent's reply has been delivered
+ */
+export function recordTurnaround(accountId: string, durationMs: number): void {
+  observe(getMetrics(accountId).turnaround, durationMs / 1000);
+}
+
+/**
+ * Run a message handler while counting it as in flight
+ */
+export async function trackInFlight<T>(accountId: string, handler: () => Promise<T>): Promise<T> {
+  const metrics = getMetrics(accountId);
+  metrics.inFlight++;
+  try {
+    return await handler();
+  } finally {
+    metrics.inFlight--;
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function renderHistogram(lines: string[], name: string, account: string, histogram: Histogram): void {
+  let cumulative = 0;
+  histogram.buckets.forEach((bound, index) => {
+    cumulative += histogram.counts[index];
+    lines.push(`${name}_bucket{account="${account}",le="${bound}"} ${cumulative}`);
+  });
+  lines.push(`${name}_bucket{account="${account}",le="+Inf"} ${histogram.count}`);
+  lines.push(`${name}_sum{account="${account}"} ${histogram.sum}`);
+  lines.push(`${name}_count{account="${account}"} ${histogram.count}`);
+}
+
+/**
+ * Prometheus text format (version 0.0.4) for one account, or all accounts with recorded metrics
+ */
+export function renderMetrics(accountId?: string): string {
+  const selected = accountId ? [[accountId, getMetrics(accountId)] as const] : [...accounts.entries()];
+  const lines: string[] = [];
+
+  lines.push('# HELP rocketchat_inbound_messages_total Inbound messages by outcome.');
+  lines.push('# TYPE rocketchat_inbound_messages_total counter');
+  for (const [id, metrics] of selected) {
+    for (const outcome of INBOUND_OUTCOMES) {
+      lines.push(`rocketchat_inbound_messages_total{account="${escapeLabel(id)}",outcome="${outcome}"} ${metrics.inbound[outcome]}`);
+    }
+  }
+
+  lines.push('# HELP rocketchat_outbound_messages_total Outbound messages by result.');
+  lines.push('# TYPE rocketchat_outbound_messages_total counter');
+  for (const [id, metrics] of selected) {
+    for (const result of OUTBOUND_RESULTS) {
+      lines.push(`rocketchat_outbound_messages_total{account="${escapeLabel(id)}",result="${result}"} ${metrics.outbound[result]}`);
+    }
+  }
+
+  lines.push('# HELP rocketchat_delivery_duration_seconds Time to deliver an outbound message, including retries.');
+  lines.push('# TYPE rocketchat_delivery_duration_seconds histogram');
+  for (const [id, metrics] of selected) {
+    renderHistogram(lines, 'rocketchat_delivery_duration_seconds', escapeLabel(id), metrics.delivery);
+  }
+
+  lines.push('# HELP rocketchat_agent_turnaround_seconds Time from accepting a message until the reply is delivered.');
+  lines.push('# TYPE rocketchat_agent_turnaround_seconds histogram');
+  for (const [id, metrics] of selected) {
+    renderHistogram(lines, 'rocketchat_agent_turnaround_seconds', escapeLabel(id), metrics.turnaround);
+  }
+
+  lines.push('# HELP rocketchat_inflight_handlers Inbound messages currently being handled.');
+  lines.push('# TYPE rocketchat_inflight_handlers gauge');
+  for (const [id, metrics] of selected) {
+    lines.push(`rocketchat_inflight_handlers{account="${escapeLabel(id)}"} ${metrics.inFlight}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
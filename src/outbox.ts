@@ -0,0 +1,205 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { resolveRocketChatStateDir } from './runtime';
+import { toDeliveryError } from './delivery';
+import type { RocketChatConfig, RocketChatAttachment, Logger } from './types';
+
+// Disk-backed outbox: messages that could not be delivered are kept and replayed in order
+
+const DEFAULT_MAX_AGE_MINUTES = 24 * 60;
+const MAX_ENTRIES = 1000;
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+export type OutboxEntry = {
+  id: string;
+  target: string;
+  // Final message text (already formatted and chunked)
+  text: string;
+  threadId?: string;
+  attachments?: RocketChatAttachment[];
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+};
+
+type AccountOutbox = {
+  file: string;
+  entries: OutboxEntry[];
+  // Set while the gateway for the account is running
+  sender?: {
+    config: RocketChatConfig;
+    send: (entry: OutboxEntry) => Promise<void>;
+    log?: Logger;
+  };
+  timer?: ReturnType<typeof setTimeout>;
+  flushing?: Promise<void>;
+};
+
+// Outboxes by account ID
+const outboxes = new Map<string, AccountOutbox>();
+
+function fileFor(accountId: string, suffix: string): string {
+  return path.join(resolveRocketChatStateDir(), `outbox-${accountId.replace(/[^\w.-]/g, '_')}${suffix}`);
+}
+
+function getOutbox(accountId: string, log?: Logger): AccountOutbox {
+  let outbox = outboxes.get(accountId);
+  if (outbox) return outbox;
+
+  outbox = { file: fileFor(accountId, '.json'), entries: [] };
+  try {
+    const stored = JSON.parse(fs.readFileSync(outbox.file, 'utf8'));
+    if (Array.isArray(stored)) outbox.entries = stored;
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') log?.warn?.(`[RocketChat] Failed to load outbox ${outbox.file}: ${err.message}`);
+  }
+  outboxes.set(accountId, outbox);
+  return outbox;
+}
+
+function save(outbox: AccountOutbox, log?: Logger): void {
+  try {
+    fs.mkdirSync(path.dirname(outbox.file), { recursive: true });
+    const tmpFile = `${outbox.file}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(outbox.entries));
+    fs.renameSync(tmpFile, outbox.file);
+  } catch (err: any) {
+    log?.error?.(`[RocketChat] Failed to save outbox ${outbox.file}: ${err.message}`);
+  }
+}
+
+/**
+ * Move an entry to the account's dead-letter file (one JSON object per line)
+ */
+function deadLetter(accountId: string, entry: OutboxEntry, reason: string, log?: Logger): void {
+  log?.warn?.(`[RocketChat] Outbox message ${entry.id} to ${entry.target} dead-lettered: ${reason}`);
+  try {
+    const file = fileFor(accountId, '.dead.jsonl');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify({ ...entry, reason, deadAt: Date.now() })}\n`);
+  } catch (err: any) {
+    log?.error?.(`[RocketChat] Failed to write dead letter for ${entry.id}: ${err.message}`);
+  }
+}
+
+function scheduleFlush(accountId: string, outbox: AccountOutbox, delayMs: number): void {
+  if (!outbox.sender || outbox.timer || outbox.entries.length === 0) return;
+  outbox.timer = setTimeout(() => {
+    outbox.timer = undefined;
+    void flushOutbox(accountId);
+  }, delayMs);
+  outbox.timer.unref?.();
+}
+
+/**
+ * Whether a target still has undelivered messages (new messages must queue behind them)
+ */
+export function hasPendingOutbox(accountId: string, target: string): boolean {
+  return getOutbox(accountId).entries.some((entry) => entry.target === target);
+}
+
+/**
+ * Store messages that could not be delivered; the oldest entries are dead-lettered beyond the size cap
+ */
+export function addToOutbox(
+  accountId: string,
+  messages: Array<Pick<OutboxEntry, 'target' | 'text' | 'threadId' | 'attachments'>>,
+  options: { error?: string; log?: Logger } = {}
+): void {
+  const outbox = getOutbox(accountId, options.log);
+  const now = Date.now();
+  for (const message of messages) {
+    outbox.entries.push({
+      ...message,
+      id: crypto.randomBytes(6).toString('hex'),
+      createdAt: now,
+      attempts: 0,
+      lastError: options.error,
+    });
+  }
+  while (outbox.entries.length > MAX_ENTRIES) {
+    deadLetter(accountId, outbox.entries.shift()!, 'outbox full', options.log);
+  }
+  save(outbox, options.log);
+  options.log?.warn?.(`[RocketChat] Stored ${messages.length} message(s) in the outbox (${outbox.entries.length} pending)`);
+  scheduleFlush(accountId, outbox, RETRY_INTERVAL_MS);
+}
+
+/**
+ * Replay stored messages in order. Replay stops at the first transient failure and is retried later;
+ * expired entries and permanently rejected ones are dead-lettered.
+ */
+export function flushOutbox(accountId: string): Promise<void> {
+  const outbox = getOutbox(accountId);
+  if (!outbox.sender) return Promise.resolve();
+  if (outbox.flushing) return outbox.flushing;
+
+  const { config, send, log } = outbox.sender;
+  const maxAgeMs = (config.outboxMaxAgeMinutes ?? DEFAULT_MAX_AGE_MINUTES) * 60 * 1000;
+
+  outbox.flushing = (async () => {
+    while (outbox.entries.length) {
+      const entry = outbox.entries[0];
+      if (Date.now() - entry.createdAt > maxAgeMs) {
+        deadLetter(accountId, outbox.entries.shift()!, 'expired', log);
+        save(outbox, log);
+        continue;
+      }
+
+      try {
+        entry.attempts++;
+        await send(entry);
+        outbox.entries.shift();
+        save(outbox, log);
+        log?.info?.(`[RocketChat] Replayed outbox message ${entry.id} to ${entry.target}`);
+      } catch (err: any) {
+        const failure = toDeliveryError(err);
+        entry.lastError = failure.message;
+        if (failure.retryable) {
+          save(outbox, log);
+          log?.debug?.(`[RocketChat] Outbox replay paused (${outbox.entries.length} pending): ${failure.message}`);
+          break;
+        }
+        deadLetter(accountId, outbox.entries.shift()!, failure.message, log);
+        save(outbox, log);
+      }
+    }
+  })().finally(() => {
+    outbox.flushing = undefined;
+    scheduleFlush(accountId, outbox, RETRY_INTERVAL_MS);
+  });
+  return outbox.flushing;
+}
+
+/**
+ * Attach the running gateway's sender to the account outbox and replay what survived a restart
+ */
+export function startOutbox(
+  accountId: string,
+  config: RocketChatConfig,
+  send: (entry: OutboxEntry) => Promise<void>,
+  log?: Logger
+): () => void {
+  const outbox = getOutbox(accountId, log);
+  outbox.sender = { config, send, log };
+  if (outbox.entries.length) {
+    log?.info?.(`[RocketChat] Replaying ${outbox.entries.length} outbox message(s) for ${accountId}`);
+    void flushOutbox(accountId);
+  }
+  return () => {
+    if (outbox.timer) clearTimeout(outbox.timer);
+    outbox.timer = undefined;
+    outbox.sender = undefined;
+  };
+}
+
+/**
+ * Outbox size and age of the oldest entry, for one account or summed over all loaded accounts
+ */
+export function getOutboxStats(accountId?: string): { size: number; oldestAgeMs: number | null } {
+  const selected = accountId ? [getOutbox(accountId)] : [...outboxes.values()];
+  const entries = selected.flatMap((outbox) => outbox.entries);
+  const oldest = entries.reduce((min, entry) => Math.min(min, entry.createdAt), Infinity);
+  return { size: entries.length, oldestAgeMs: entries.length ? Date.now() - oldest : null };
+}
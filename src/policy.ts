@@ -0,0 +1,129 @@
+import type { RocketChatConfig, RocketChatGroupConfig, RocketChatInboundMessage } from './types';
+
+// Authorization helpers
+export type NormalizedAllowFrom = {
+  // User IDs, matched exactly
+  ids: string[];
+  // Lowercased usernames from `@name` entries
+  usernames: string[];
+  hasWildcard: boolean;
+  hasEntries: boolean;
+};
+
+/**
+ * Normalize an allowFrom list. Plain entries are user IDs; usernames can be renamed, so they
+ * only match when written as `@name`.
+ */
+export function normalizeAllowFrom(list?: Array<string>): NormalizedAllowFrom {
+  const entries = (list ?? []).map((value) => String(value).trim()).filter(Boolean);
+  const hasWildcard = entries.includes('*');
+  const normalized = entries.filter((value) => value !== '*').map((value) => value.replace(/^(rocketchat|rc|rocket):/i, ''));
+  return {
+    ids: normalized.filter((value) => !value.startsWith('@')),
+    usernames: normalized.filter((value) => value.startsWith('@')).map((value) => value.slice(1).toLowerCase()),
+    hasWildcard,
+    hasEntries: entries.length > 0,
+  };
+}
+
+/**
+ * Whether a message was sent in a direct message room. The realtime API reports the room type;
+ * outgoing webhooks only carry the room name, which is empty or `@user` for DMs.
+ */
+export function isDirectMessage(data: RocketChatInboundMessage): boolean {
+  if (data.room_type) return data.room_type === 'd';
+  return !data.channel_name || data.channel_name.startsWith('@');
+}
+
+/**
+ * Check if sender is allowed based on allowFrom list: the exact user ID, or the username for `@name` entries
+ */
+export function isSenderAllowed(params: {
+  allow: NormalizedAllowFrom;
+  senderId?: string;
+  senderName?: string;
+}): boolean {
+  const { allow, senderId, senderName } = params;
+  if (!allow.hasEntries) return true;
+  if (allow.hasWildcard) return true;
+  if (senderId && allow.ids.includes(senderId)) return true;
+  if (senderName && allow.usernames.includes(senderName.toLowerCase())) return true;
+  return false;
+}
+
+/**
+ * Find the `groups` entry for a channel, matching its ID, name or `#name`, then the `*` wildcard
+ */
+export function resolveGroupConfig(
+  config: RocketChatConfig,
+  channelId?: string,
+  channelName?: string | null
+): RocketChatGroupConfig | undefined {
+  const groups = config.groups;
+  if (!groups) return undefined;
+
+  const candidates = [channelId, channelName, channelName ? `#${channelName}` : undefined].filter(
+    (value): value is string => Boolean(value)
+  );
+  for (const candidate of candidates) {
+    const match = Object.entries(groups).find(([key]) => key.toLowerCase() === candidate.toLowerCase());
+    if (match) return match[1];
+  }
+  return groups['*'];
+}
+
+/**
+ * Check whether the bot may respond in a channel.
+ * With groupPolicy 'allowlist' only channels listed in `groups` (or a `*` entry) are allowed;
+ * an entry with `enabled: false` always blocks the channel.
+ */
+export function isGroupAllowed(config: RocketChatConfig, channelId?: string, channelName?: string | null): boolean {
+  const groupConfig = resolveGroupConfig(config, channelId, channelName);
+  if (groupConfig?.enabled === false) return false;
+  if ((config.groupPolicy || 'open') === 'allowlist') return Boolean(groupConfig);
+  return true;
+}
+
+/**
+ * Check the per-channel sender allowlist, falling back to `groupAllowFrom`
+ */
+export function isGroupSenderAllowed(
+  config: RocketChatConfig,
+  params: { channelId?: string; channelName?: string | null; senderId?: string; senderName?: string }
+): boolean {
+  const groupConfig = resolveGroupConfig(config, params.channelId, params.channelName);
+  const allow = normalizeAllowFrom(groupConfig?.allowFrom ?? config.groupAllowFrom);
+  return isSenderAllowed({ allow, senderId: params.senderId, senderName: params.senderName });
+}
+
+/**
+ * Whether group messages in a channel must mention the bot
+ */
+export function resolveGroupRequireMention(
+  config: RocketChatConfig,
+  channelId?: string,
+  channelName?: string | null
+): boolean {
+  return resolveGroupConfig(config, channelId, channelName)?.requireMention ?? config.requireMention ?? false;
+}
+
+/**
+ * Whether a sender who got past the DM / group policy may also run control commands.
+ * DMs defer to `allowFrom` when it has entries; in groups the channel or `groupAllowFrom` list
+ * decides, falling back to `allowFrom`. With all of these empty every sender is authorized.
+ */
+export function resolveCommandAuthorized(
+  config: RocketChatConfig,
+  params: { isDirect: boolean; channelId?: string; channelName?: string | null; senderId?: string; senderName?: string; paired?: boolean }
+): boolean {
+  const { senderId, senderName } = params;
+  if (params.paired) return true;
+
+  if (!params.isDirect) {
+    const groupConfig = resolveGroupConfig(config, params.channelId, params.channelName);
+    const groupAllow = normalizeAllowFrom(groupConfig?.allowFrom ?? config.groupAllowFrom);
+    if (groupAllow.hasEntries) return isSenderAllowed({ allow: groupAllow, senderId, senderName });
+  }
+
+  return isSenderAllowed({ allow: normalizeAllowFrom(config.allowFrom), senderId, senderName });
+}
@@ -0,0 +1,269 @@
+import axios from 'axios';
+import { buildAuthHeaders, buildRestUrl, isRestConfigured } from './rest-client';
+import { resolveAcceptedTokens } from './auth';
+import type { RocketChatConfig } from './types';
+
+// Live diagnostics for status.probe: each check passes, warns or fails with a remediation hint
+
+const DEFAULT_TIMEOUT_MS = 5000;
+// Clock differences above this are reported even without a timestamp window
+const CLOCK_SKEW_WARN_MS = 30 * 1000;
+
+export type ProbeCheckStatus = 'pass' | 'warn' | 'fail';
+
+export type ProbeCheck = {
+  id: 'config' | 'webhook' | 'rest' | 'route' | 'server' | 'clock';
+  status: ProbeCheckStatus;
+  message: string;
+  hint?: string;
+};
+
+export type ProbeResult = {
+  ok: boolean;
+  error?: string;
+  checks: ProbeCheck[];
+  details: {
+    accountId: string;
+    inboundMode: string;
+    outboundMode: string;
+    serverUrl?: string;
+    serverVersion?: string;
+    botUsername?: string;
+    clockSkewMs?: number;
+  };
+};
+
+export type ProbeOptions = {
+  accountId: string;
+  // Path currently registered for the account's inbound webhook (undefined when not running)
+  route?: string;
+  timeoutMs?: number;
+};
+
+// Server origin for /api/info: serverUrl, or the origin of the incoming webhook URL
+function resolveServerOrigin(config: RocketChatConfig): string | undefined {
+  const base = config.serverUrl || config.webhookUrl;
+  if (!base) return undefined;
+  try {
+    return new URL(base).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+// Error text without request details (webhook URLs carry the integration token)
+function describeError(err: any): string {
+  if (err?.response) return `HTTP ${err.response.status}`;
+  return err?.code || err?.message || String(err);
+}
+
+function checkConfig(config: RocketChatConfig): ProbeCheck {
+  const missing: string[] = [];
+  if (config.inboundMode === 'realtime') {
+    if (!config.serverUrl) missing.push('serverUrl');
+    if (!config.botAuthToken) missing.push('botAuthToken');
+  } else if (!resolveAcceptedTokens(config).length) {
+    missing.push('authToken');
+  }
+  if (config.outboundMode === 'rest') {
+    if (!isRestConfigured(config)) missing.push('serverUrl, botUserId and botAuthToken');
+  } else if (!config.webhookUrl) {
+    missing.push('webhookUrl');
+  }
+
+  return missing.length
+    ? {
+        id: 'config',
+        status: 'fail',
+        message: `Missing ${missing.join(', ')}`,
+        hint: 'Set the missing fields under channels.rocketchat (or the account entry) and restart the gateway',
+      }
+    : { id: 'config', status: 'pass', message: 'Required settings are present' };
+}
+
+/**
+ * Post an empty payload to the incoming webhook. Rocket.Chat authenticates the integration
+ * before looking at the payload, so a 400 for the missing text still proves URL and token work.
+ */
+async function checkWebhook(config: RocketChatConfig, timeoutMs: number): Promise<ProbeCheck> {
+  try {
+    const result = await axios({
+      url: config.webhookUrl,
+      method: 'POST',
+      data: {},
+      headers: { 'Content-Type': 'application/json' },
+      timeout: timeoutMs,
+      validateStatus: () => true,
+    });
+    if (result.status < 300 || result.status === 400) {
+      return { id: 'webhook', status: 'pass', message: `Incoming webhook reachable (dry run answered HTTP ${result.status})` };
+    }
+    if (result.status === 401 || result.status === 403 || result.status === 404) {
+      return {
+        id: 'webhook',
+        status: 'fail',
+        message: `Incoming webhook rejected the dry run (HTTP ${result.status})`,
+        hint: 'Check that the incoming webhook integration is enabled and copy its URL again (the URL contains the integration token)',
+      };
+    }
+    return {
+      id: 'webhook',
+      status: 'warn',
+      message: `Incoming webhook answered the dry run with HTTP ${result.status}`,
+      hint: 'Check the Rocket.Chat server logs and any proxy in front of it',
+    };
+  } catch (err: any) {
+    return {
+      id: 'webhook',
+      status: 'fail',
+      message: `Incoming webhook unreachable: ${describeError(err)}`,
+      hint: 'Check webhookUrl and that the gateway host can reach the Rocket.Chat server (DNS, firewall, TLS)',
+    };
+  }
+}
+
+async function checkRest(config: RocketChatConfig, timeoutMs: number): Promise<{ check: ProbeCheck; username?: string }> {
+  try {
+    const result = await axios({
+      url: buildRestUrl(config, 'me'),
+      method: 'GET',
+      headers: buildAuthHeaders(config),
+      timeout: timeoutMs,
+    });
+    const username = result.data?.username;
+    return {
+      check: { id: 'rest', status: 'pass', message: `REST credentials authenticate as @${username || config.botUserId}` },
+      username,
+    };
+  } catch (err: any) {
+    const status = err?.response?.status;
+    return {
+      check:
+        status === 401 || status === 403
+          ? {
+              id: 'rest',
+              status: 'fail',
+              message: `REST credentials were rejected (HTTP ${status})`,
+              hint: 'Create a new personal access token for the bot user and update botUserId / botAuthToken',
+            }
+          : {
+              id: 'rest',
+              status: 'fail',
+              message: `REST API unreachable: ${describeError(err)}`,
+              hint: 'Check serverUrl and that the gateway host can reach the Rocket.Chat server',
+            },
+    };
+  }
+}
+
+function checkRoute(config: RocketChatConfig, route: string | undefined): ProbeCheck {
+  if (config.inboundMode === 'realtime') {
+    return { id: 'route', status: 'pass', message: 'Realtime inbound mode does not need a webhook route' };
+  }
+  if (!route) {
+    return {
+      id: 'route',
+      status: 'fail',
+      message: 'Inbound webhook route is not registered',
+      hint: 'Start the gateway for this account and check its log for route registration errors',
+    };
+  }
+  return { id: 'route', status: 'pass', message: `Inbound webhook route registered at ${route}` };
+}
+
+/**
+ * Server version from /api/info and clock skew from the response Date header
+ */
+async function checkServer(
+  config: RocketChatConfig,
+  origin: string,
+  timeoutMs: number
+): Promise<{ checks: ProbeCheck[]; version?: string; clockSkewMs?: number }> {
+  const sentAt = Date.now();
+  let result;
+  try {
+    result = await axios({ url: `${origin}/api/info`, method: 'GET', timeout: timeoutMs });
+  } catch (err: any) {
+    return {
+      checks: [
+        {
+          id: 'server',
+          status: 'warn',
+          message: `Server info unavailable: ${describeError(err)}`,
+          hint: 'The server may be behind a proxy that hides /api/info; other checks are unaffected',
+        },
+      ],
+    };
+  }
+
+  const version: string | undefined = result.data?.version || result.data?.info?.version;
+  const checks: ProbeCheck[] = [
+    version
+      ? { id: 'server', status: 'pass', message: `Rocket.Chat ${version}` }
+      : { id: 'server', status: 'warn', message: 'Server did not report its version' },
+  ];
+
+  const serverDate = Date.parse(result.headers?.date || '');
+  if (Number.isNaN(serverDate)) return { checks, version };
+
+  // The Date header has one-second resolution; compare against the middle of the request
+  const clockSkewMs = serverDate - (sentAt + Date.now()) / 2;
+  const skewSeconds = Math.round(Math.abs(clockSkewMs) / 1000);
+  const windowSeconds = config.maxTimestampSkewSeconds;
+  if (windowSeconds && skewSeconds > windowSeconds) {
+    checks.push({
+      id: 'clock',
+      status: 'fail',
+      message: `Clock differs from the server by ${skewSeconds}s, more than maxTimestampSkewSeconds (${windowSeconds}s)`,
+      hint: 'Synchronize both hosts with NTP; until then every webhook request is rejected as stale',
+    });
+  } else if (Math.abs(clockSkewMs) > CLOCK_SKEW_WARN_MS) {
+    checks.push({
+      id: 'clock',
+      status: 'warn',
+      message: `Clock differs from the server by ${skewSeconds}s`,
+      hint: 'Synchronize both hosts with NTP',
+    });
+  } else {
+    checks.push({ id: 'clock', status: 'pass', message: `Clock skew ${skewSeconds}s` });
+  }
+  return { checks, version, clockSkewMs };
+}
+
+/**
+ * Run all diagnostics for one account. Network checks run in parallel and never throw.
+ */
+export async function probeAccount(config: RocketChatConfig, options: ProbeOptions): Promise<ProbeResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const origin = resolveServerOrigin(config);
+  const details: ProbeResult['details'] = {
+    accountId: options.accountId,
+    inboundMode: config.inboundMode || 'webhook',
+    outboundMode: config.outboundMode || 'webhook',
+    serverUrl: origin,
+  };
+
+  const [webhook, rest, server] = await Promise.all([
+    config.outboundMode !== 'rest' && config.webhookUrl ? checkWebhook(config, timeoutMs) : undefined,
+    isRestConfigured(config) ? checkRest(config, timeoutMs) : undefined,
+    origin ? checkServer(config, origin, timeoutMs) : undefined,
+  ]);
+
+  const checks: ProbeCheck[] = [checkConfig(config)];
+  if (webhook) checks.push(webhook);
+  if (rest) checks.push(rest.check);
+  checks.push(checkRoute(config, options.route));
+  if (server) checks.push(...server.checks);
+
+  details.botUsername = rest?.username;
+  details.serverVersion = server?.version;
+  details.clockSkewMs = server?.clockSkewMs;
+
+  const failed = checks.filter((check) => check.status === 'fail');
+  return {
+    ok: failed.length === 0,
+    error: failed.length ? failed.map((check) => check.message).join('; ') : undefined,
+    checks,
+    details,
+  };
+}
@@ -0,0 +1,121 @@
+import type { RocketChatConfig, RocketChatInboundMessage, Logger } from './types';
+import { isDirectMessage } from './policy';
+
+// Per-conversation serialized processing with a concurrency cap shared by all accounts
+
+const DEFAULT_MAX_CONCURRENT = 4;
+const DEFAULT_MAX_QUEUE_DEPTH = 50;
+
+type AccountQueue = {
+  // Tasks of this account holding a concurrency slot
+  running: number;
+  // Tasks accepted but not started yet
+  pending: number;
+  // Tail of each conversation's chain of tasks
+  chains: Map<string, Promise<void>>;
+};
+
+// Concurrency slots shared by every account, so agent runs stay capped however many accounts are configured
+const slots: { used: number; waiters: Array<() => void> } = { used: 0, waiters: [] };
+
+// Queues by account ID
+const queues = new Map<string, AccountQueue>();
+
+function getQueue(accountId: string): AccountQueue {
+  let queue = queues.get(accountId);
+  if (!queue) {
+    queue = { running: 0, pending: 0, chains: new Map() };
+    queues.set(accountId, queue);
+  }
+  return queue;
+}
+
+function acquireSlot(maxConcurrent: number): Promise<void> {
+  if (slots.used < maxConcurrent) {
+    slots.used++;
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => slots.waiters.push(resolve));
+}
+
+// A freed slot is handed straight to the next waiter so the cap is never exceeded
+function releaseSlot(): void {
+  const next = slots.waiters.shift();
+  if (next) {
+    next();
+  } else {
+    slots.used--;
+  }
+}
+
+/**
+ * Key of the conversation a message belongs to: the room, or the thread it is answered in.
+ * Mirrors the session peer used for routing, so one session never processes two messages at once.
+ */
+export function resolveConversationKey(config: RocketChatConfig, data: RocketChatInboundMessage): string {
+  const isDirect = isDirectMessage(data);
+  const threadId = data.tmid || (!isDirect && config.replyInThread ? data.message_id : undefined);
+  return threadId ? `${data.channel_id}:thread:${threadId}` : data.channel_id;
+}
+
+/**
+ * Queue a task behind earlier tasks of the same conversation.
+ * At most `maxConcurrent` tasks run at once across all accounts; returns false when `maxQueueDepth`
+ * tasks of the account are already waiting. A task that can start right away never counts as waiting.
+ */
+export function enqueueTask(
+  accountId: string,
+  key: string,
+  config: RocketChatConfig,
+  task: () => Promise<void>,
+  log?: Logger
+): boolean {
+  const queue = getQueue(accountId);
+  const maxConcurrent = config.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+  const previous = queue.chains.get(key);
+  // Idle conversation and a free slot: take the slot now instead of waiting for it
+  const immediate = !previous && slots.used < maxConcurrent;
+  if (!immediate && queue.pending >= (config.maxQueueDepth ?? DEFAULT_MAX_QUEUE_DEPTH)) return false;
+
+  if (immediate) {
+    slots.used++;
+  } else {
+    queue.pending++;
+  }
+  const run = (previous ?? Promise.resolve()).then(async () => {
+    if (!immediate) {
+      await acquireSlot(maxConcurrent);
+      queue.pending--;
+    }
+    queue.running++;
+    try {
+      await task();
+    } catch (err: any) {
+      log?.error?.(`[RocketChat] Queued task for ${key} failed: ${err.message}`);
+    } finally {
+      queue.running--;
+      releaseSlot();
+    }
+  });
+
+  queue.chains.set(key, run);
+  void run.then(() => {
+    if (queue.chains.get(key) === run) queue.chains.delete(key);
+  });
+  return true;
+}
+
+/**
+ * Queue counters for one account, or summed over all accounts
+ */
+export function getQueueStats(accountId?: string): { running: number; queued: number; conversations: number } {
+  const selected = accountId ? [queues.get(accountId)].filter((queue): queue is AccountQueue => Boolean(queue)) : [...queues.values()];
+  return selected.reduce(
+    (stats, queue) => ({
+      running: stats.running + queue.running,
+      queued: stats.queued + queue.pending,
+      conversations: stats.conversations + queue.chains.size,
+    }),
+    { running: 0, queued: 0, conversations: 0 }
+  );
+}
@@ -0,0 +1,198 @@
+import WebSocket from 'ws';
+import type { RocketChatConfig, RocketChatInboundMessage, Logger } from './types';
+
+// Rocket.Chat realtime (DDP over WebSocket) inbound transport
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+// A frame whose _updatedAt is this much later than the message (or its edit) is a later update:
+// reactions, URL previews, thread reply counters, read receipts
+const UPDATE_WINDOW_MS = 30 * 1000;
+
+export interface RealtimeListenerOptions {
+  config: RocketChatConfig;
+  accountId: string;
+  abortSignal?: AbortSignal;
+  log?: Logger;
+  onMessage: (message: RocketChatInboundMessage) => Promise<void> | void;
+  // Called after each successful login with the user ID the auth token belongs to
+  onLogin?: (userId: string) => void;
+}
+
+export interface RealtimeListener {
+  stop: () => void;
+}
+
+/**
+ * Build the DDP endpoint from the server URL, e.g. `https://chat.example.com` -> `wss://chat.example.com/websocket`
+ */
+export function buildRealtimeUrl(serverUrl: string): string {
+  const base = serverUrl.replace(/\/+$/, '').replace(/^http(s?):\/\//i, (_match, secure) => `ws${secure}://`);
+  return `${base}/websocket`;
+}
+
+// DDP dates arrive as { $date: epochMs }; REST-shaped payloads use ISO strings
+function toMillis(value: any): number | undefined {
+  const raw = value?.$date ?? value;
+  if (raw === undefined || raw === null) return undefined;
+  const millis = typeof raw === 'number' ? raw : Date.parse(String(raw));
+  return Number.isNaN(millis) ? undefined : millis;
+}
+
+/**
+ * Convert a `stream-room-messages` event into the outgoing-webhook message shape,
+ * so realtime and webhook inbound share the same message handler.
+ * Returns null for system messages (joins, topic changes, ...), frames without room info,
+ * and updates of existing messages that are not edits.
+ */
+export function toInboundMessage(
+  message: any,
+  room: any,
+  config: RocketChatConfig,
+  botUserId?: string
+): RocketChatInboundMessage | null {
+  if (!message?._id || !message.u?._id) return null;
+  if (message.t) return null;
+  // Without the room type a group message could not be told from a DM and would skip group policy
+  if (!room?.roomType) return null;
+
+  const timestamp = toMillis(message.ts);
+  const editedAt = toMillis(message.editedAt);
+  const updatedAt = toMillis(message._updatedAt);
+  // The stream re-emits a message whenever it changes; only its creation and its edits are new input
+  const reference = editedAt ?? timestamp;
+  if (updatedAt !== undefined && reference !== undefined && updatedAt - reference > UPDATE_WINDOW_MS) return null;
+
+  const isDirect = room.roomType === 'd';
+
+  return {
+    token: '',
+    bot: Boolean(message.bot) || message.u._id === botUserId,
+    channel_id: message.rid,
+    channel_name: isDirect ? null : room.roomName ?? null,
+    room_type: room.roomType,
+    message_id: message._id,
+    timestamp: timestamp ? new Date(timestamp).toISOString() : new Date().toISOString(),
+    user_id: message.u._id,
+    user_name: message.u.username,
+    text: message.msg || '',
+    siteUrl: config.serverUrl || '',
+    tmid: message.tmid,
+    file: message.file,
+    files: message.files,
+    attachments: message.attachments,
+    editedAt: editedAt ? new Date(editedAt).toISOString() : undefined,
+  };
+}
+
+/**
+ * Log in as the bot over the realtime API and stream messages from every joined room and DM.
+ * The connection is re-established with exponential backoff until stopped or aborted.
+ */
+export function startRealtimeListener(options: RealtimeListenerOptions): RealtimeListener {
+  const { config, accountId, abortSignal, log, onMessage, onLogin } = options;
+  const url = buildRealtimeUrl(config.serverUrl || '');
+
+  let socket: WebSocket | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let stopped = false;
+  let nextId = 0;
+  let botUserId = config.botUserId;
+
+  const send = (payload: Record<string, unknown>) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(payload));
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped) return;
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * Math.pow(2, attempt), RECONNECT_MAX_DELAY_MS);
+    attempt += 1;
+    log?.info?.(`[${accountId}] Rocket.Chat realtime connection lost, reconnecting in ${delay}ms`);
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  const handleFrame = (frame: any) => {
+    switch (frame.msg) {
+      case 'connected':
+        send({ msg: 'method', method: 'login', id: `login-${++nextId}`, params: [{ resume: config.botAuthToken }] });
+        return;
+      case 'ping':
+        send({ msg: 'pong' });
+        return;
+      case 'result':
+        if (typeof frame.id !== 'string' || !frame.id.startsWith('login-')) return;
+        if (frame.error) {
+          log?.error?.(`[${accountId}] Rocket.Chat realtime login failed: ${frame.error.reason || frame.error.message}`);
+          socket?.close();
+          return;
+        }
+        botUserId = frame.result?.id || botUserId;
+        if (botUserId) onLogin?.(botUserId);
+        attempt = 0;
+        send({ msg: 'sub', id: `sub-${++nextId}`, name: 'stream-room-messages', params: ['__my_messages__', false] });
+        log?.info?.(`[${accountId}] Rocket.Chat realtime listener subscribed as ${botUserId}`);
+        return;
+      case 'nosub':
+        log?.error?.(`[${accountId}] Rocket.Chat realtime subscription rejected: ${frame.error?.reason || 'unknown'}`);
+        return;
+      case 'changed': {
+        if (frame.collection !== 'stream-room-messages') return;
+        const [message, room] = frame.fields?.args ?? [];
+        const inbound = toInboundMessage(message, room, config, botUserId);
+        if (!inbound) return;
+        Promise.resolve(onMessage(inbound)).catch((err: any) => {
+          log?.error?.(`[${accountId}] Error handling realtime message: ${err.message}`);
+        });
+        return;
+      }
+      default:
+        return;
+    }
+  };
+
+  function connect(): void {
+    if (stopped) return;
+    log?.debug?.(`[${accountId}] Connecting to Rocket.Chat realtime API at ${url}`);
+
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.on('open', () => {
+      send({ msg: 'connect', version: '1', support: ['1'] });
+    });
+    ws.on('message', (raw: WebSocket.RawData) => {
+      try {
+        handleFrame(JSON.parse(raw.toString()));
+      } catch (err: any) {
+        log?.debug?.(`[${accountId}] Ignoring malformed realtime frame: ${err.message}`);
+      }
+    });
+    ws.on('error', (err: Error) => {
+      log?.error?.(`[${accountId}] Rocket.Chat realtime socket error: ${err.message}`);
+    });
+    ws.on('close', () => {
+      if (socket === ws) socket = undefined;
+      scheduleReconnect();
+    });
+  }
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    socket?.close();
+    socket = undefined;
+  };
+
+  if (abortSignal?.aborted) {
+    stopped = true;
+  } else {
+    abortSignal?.addEventListener('abort', stop, { once: true });
+    connect();
+  }
+
+  return { stop };
+}
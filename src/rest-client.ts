@@ -0,0 +1,196 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import { noteRateLimitHeaders, resolveRequestTimeout } from './delivery';
+import type { RocketChatConfig, RocketChatOutboundMessage, RocketChatPostMessageResult, MediaFile } from './types';
+
+// Rocket.Chat REST API client (bot user credentials)
+
+/**
+ * Check that the REST credentials needed by outboundMode 'rest' are present
+ */
+export function isRestConfigured(config: RocketChatConfig): boolean {
+  return Boolean(config.serverUrl && config.botUserId && config.botAuthToken);
+}
+
+/**
+ * Build an absolute REST endpoint URL, e.g. `chat.postMessage` -> `https://host/api/v1/chat.postMessage`
+ */
+export function buildRestUrl(config: RocketChatConfig, endpoint: string): string {
+  const base = (config.serverUrl || '').replace(/\/+$/, '');
+  return `${base}/api/v1/${endpoint}`;
+}
+
+/**
+ * Authentication headers for the bot user
+ */
+export function buildAuthHeaders(config: RocketChatConfig): Record<string, string> {
+  return {
+    'X-User-Id': config.botUserId || '',
+    'X-Auth-Token': config.botAuthToken || '',
+  };
+}
+
+/**
+ * Map an outbound target to chat.postMessage addressing.
+ * `#channel` and `@username` are passed as `channel`, anything else is treated as a room ID.
+ */
+export function resolveRoomTarget(target: string): { roomId?: string; channel?: string } {
+  const trimmed = target.trim();
+  if (trimmed.startsWith('#') || trimmed.startsWith('@')) {
+    return { channel: trimmed };
+  }
+  return { roomId: trimmed };
+}
+
+function assertRestConfigured(config: RocketChatConfig): void {
+  if (!isRestConfigured(config)) {
+    throw new Error('Rocket.Chat REST mode requires serverUrl, botUserId and botAuthToken');
+  }
+}
+
+/**
+ * Post a message to a room through `/api/v1/chat.postMessage`
+ */
+export async function postMessage(
+  config: RocketChatConfig,
+  target: string,
+  message: RocketChatOutboundMessage
+): Promise<RocketChatPostMessageResult> {
+  assertRestConfigured(config);
+
+  const result = await axios({
+    url: buildRestUrl(config, 'chat.postMessage'),
+    method: 'POST',
+    data: { ...resolveRoomTarget(target), ...message },
+    headers: {
+      'Content-Type': 'application/json',
+      ...buildAuthHeaders(config),
+    },
+    timeout: resolveRequestTimeout(config),
+  });
+
+  noteRateLimitHeaders(config, result.headers);
+  const data = result.data as RocketChatPostMessageResult;
+  if (!data?.success) {
+    throw new Error(`chat.postMessage failed: ${data?.error || 'unknown error'}`);
+  }
+  return data;
+}
+
+/**
+ * Resolve an outbound target to a room ID.
+ * `#channel` is looked up through `rooms.info`, `@username` opens (or reuses) the DM through `im.create`.
+ */
+export async function resolveRoomId(config: RocketChatConfig, target: string): Promise<string> {
+  const { roomId, channel } = resolveRoomTarget(target);
+  if (roomId) return roomId;
+
+  assertRestConfigured(config);
+  const headers = buildAuthHeaders(config);
+  const name = channel!.slice(1);
+
+  const result = channel!.startsWith('@')
+    ? await axios({
+        url: buildRestUrl(config, 'im.create'),
+        method: 'POST',
+        data: { username: name },
+        headers: { 'Content-Type': 'application/json', ...headers },
+        timeout: resolveRequestTimeout(config),
+      })
+    : await axios({
+        url: buildRestUrl(config, 'rooms.info'),
+        method: 'GET',
+        params: { roomName: name },
+        headers,
+        timeout: resolveRequestTimeout(config),
+      });
+
+  const rid = result.data?.room?._id || result.data?.room?.rid;
+  if (!rid) {
+    throw new Error(`Unable to resolve Rocket.Chat room for ${target}`);
+  }
+  return rid;
+}
+
+/**
+ * Upload a local file to a room through `/api/v1/rooms.upload/:rid`
+ */
+export async function uploadFile(
+  config: RocketChatConfig,
+  target: string,
+  file: MediaFile & { name: string },
+  options: { msg?: string; description?: string; tmid?: string } = {}
+): Promise<RocketChatPostMessageResult> {
+  assertRestConfigured(config);
+  const rid = await resolveRoomId(config, target);
+
+  const form = new FormData();
+  form.append('file', new Blob([fs.readFileSync(file.path)], { type: file.mimeType }), file.name);
+  if (options.msg) form.append('msg', options.msg);
+  if (options.description) form.append('description', options.description);
+  if (options.tmid) form.append('tmid', options.tmid);
+
+  const result = await axios({
+    url: buildRestUrl(config, `rooms.upload/${encodeURIComponent(rid)}`),
+    method: 'POST',
+    data: form,
+    headers: buildAuthHeaders(config),
+    timeout: resolveRequestTimeout(config),
+  });
+
+  noteRateLimitHeaders(config, result.headers);
+  const data = result.data as RocketChatPostMessageResult;
+  if (!data?.success) {
+    throw new Error(`rooms.upload failed: ${data?.error || 'unknown error'}`);
+  }
+  return data;
+}
+
+/**
+ * Replace the text of an existing message through `/api/v1/chat.update`
+ */
+export async function updateMessage(
+  config: RocketChatConfig,
+  roomId: string,
+  msgId: string,
+  text: string
+): Promise<RocketChatPostMessageResult> {
+  assertRestConfigured(config);
+
+  const result = await axios({
+    url: buildRestUrl(config, 'chat.update'),
+    method: 'POST',
+    data: { roomId, msgId, text },
+    headers: {
+      'Content-Type': 'application/json',
+      ...buildAuthHeaders(config),
+    },
+    timeout: resolveRequestTimeout(config),
+  });
+
+  noteRateLimitHeaders(config, result.headers);
+  const data = result.data as RocketChatPostMessageResult;
+  if (!data?.success) {
+    throw new Error(`chat.update failed: ${data?.error || 'unknown error'}`);
+  }
+  return data;
+}
+
+/**
+ * Fetch the bot's own user record through `/api/v1/me`
+ */
+export async function getMe(config: RocketChatConfig): Promise<{ _id: string; username: string; [key: string]: any }> {
+  assertRestConfigured(config);
+
+  const result = await axios({
+    url: buildRestUrl(config, 'me'),
+    method: 'GET',
+    headers: buildAuthHeaders(config),
+    timeout: resolveRequestTimeout(config),
+  });
+
+  if (!result.data?.username) {
+    throw new Error('me returned no username');
+  }
+  return result.data;
+}
@@ -1,4 +1,6 @@
 // RocketChat 运行时管理
+import * as os from 'os';
+import * as path from 'path';
 
 let runtime: any;
 
@@ -8,4 +10,10 @@ export function setRocketChatRuntime(rt: any): void {
 
 export function getRocketChatRuntime(): any {
   return runtime;
-}
\ No newline at end of file
+}
+
+// 插件状态目录（<OpenClaw 状态目录>/rocketchat），用于持久化去重记录等
+export function resolveRocketChatStateDir(): string {
+  const stateDir = runtime?.state?.resolveStateDir?.() || path.join(os.homedir(), '.openclaw');
+  return path.join(stateDir, 'rocketchat');
+}
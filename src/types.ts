@@ -3,18 +3,67 @@ import type { OpenClawConfig } from 'openclaw/plugin-sdk';
 // Rocket.Chat 配置类型定义
 export interface RocketChatConfig {
   enabled?: boolean;
-  webhookUrl: string;           // Rocket.Chat 发送消息的 Webhook 地址
-  authToken: string;            // 用于验证消息的安全令牌
+  webhookUrl?: string;          // Rocket.Chat 发送消息的 Webhook 地址
+  authToken?: string;           // 用于验证消息的安全令牌（webhook 入站模式）
+  authTokens?: string[];        // 额外接受的令牌（轮换令牌时使用）
+  metricsToken?: string;        // 指标路由的访问令牌，未设置时使用 authToken / authTokens
+  allowedSourceIps?: string[];  // 允许调用 webhook 的来源 IP / CIDR
+  trustProxy?: boolean;         // 通过反向代理接入时，按 X-Forwarded-For 识别来源 IP
+  maxTimestampSkewSeconds?: number; // 拒绝 timestamp 偏差超过该秒数的请求（防重放）
+  webhookPath?: string;         // 传出 WebHook 的接收路径，默认 /hooks/rocketchat/<accountId>
+  legacyWebhookPath?: boolean;  // 兼容旧版路径 /hooks/<authToken>
+  standaloneServer?: RocketChatStandaloneServerConfig; // 使用插件自带的 HTTP(S) 服务，不经过 OpenClaw 网关
+  inboundMode?: 'webhook' | 'realtime'; // 入站接收方式：传出 Webhook 或实时 API
+  outboundMode?: 'webhook' | 'rest'; // 出站发送方式：传入 Webhook 或 REST API
+  serverUrl?: string;           // Rocket.Chat 服务器地址（REST / 实时模式）
+  botUserId?: string;           // 机器人用户 ID（X-User-Id）
+  botAuthToken?: string;        // 机器人访问令牌（X-Auth-Token）
   dmPolicy?: 'open' | 'pairing' | 'allowlist';
   groupPolicy?: 'open' | 'allowlist';
   allowFrom?: string[];
+  groupAllowFrom?: string[];    // 群聊中允许触发机器人的用户（未在频道中单独配置时使用）
+  groups?: Record<string, RocketChatGroupConfig>; // 按频道 ID / 名称配置，支持 "*"
+  requireMention?: boolean;     // 群聊是否需要 @机器人
+  botUsername?: string;         // 机器人用户名，用于识别 @提及（rest 模式下可自动获取）
+  mentionPatterns?: string[];   // 额外的别名 / 触发词，视为提及机器人
+  groupBlockedAction?: 'ignore' | 'notify'; // 群聊消息被策略拦截时的处理方式
   messageType?: 'text' | 'markdown';
   showThinking?: boolean;
+  replyInThread?: boolean;      // 群聊中始终以讨论串形式回复
+  streamMode?: 'off' | 'edit';  // 流式回复：编辑同一条消息（需要 rest 出站模式）
+  streamThrottleMs?: number;    // 流式编辑最小间隔（毫秒）
+  mediaMaxMb?: number;          // 入站媒体下载大小上限（MB）
+  textChunkLimit?: number;      // 单条消息最大字符数，超出后拆分发送
+  chunkNumbering?: boolean;     // 拆分发送时是否添加 [1/3] 编号
+  dedupTtlMinutes?: number;     // 已处理消息 ID 的保留时间（分钟）
+  editedMessages?: 'ignore' | 'process'; // 消息编辑事件：忽略 / 作为新消息处理
+  maxConcurrent?: number;       // 所有账号合计同时处理的消息数上限（仅顶层配置）
+  maxQueueDepth?: number;       // 等待处理的消息数上限，超出时回复繁忙
+  deliveryRetries?: number;     // 发送失败（429 / 5xx / 网络错误）时的重试次数
+  roomPacingMs?: number;        // 同一房间两条消息之间的最小间隔（毫秒）
+  requestTimeoutMs?: number;    // 单次请求 Rocket.Chat 的超时时间（毫秒）
+  outboxMaxAgeMinutes?: number; // 发送失败的回复在暂存区中保留的最长时间（分钟）
   debug?: boolean;
   name?: string;
   accounts?: Record<string, RocketChatConfig>;
 }
 
+// 独立 HTTP(S) 监听配置
+export interface RocketChatStandaloneServerConfig {
+  host?: string;                // 监听地址，默认 0.0.0.0
+  port: number;                 // 监听端口
+  tlsCert?: string;             // TLS 证书文件路径（PEM），与 tlsKey 同时配置时启用 HTTPS
+  tlsKey?: string;              // TLS 私钥文件路径（PEM）
+  maxBodyBytes?: number;        // 请求体大小上限（字节），默认 1 MiB
+}
+
+// 单个频道（群聊）配置
+export interface RocketChatGroupConfig {
+  enabled?: boolean;            // 为 false 时忽略该频道
+  requireMention?: boolean;     // 是否需要 @机器人
+  allowFrom?: string[];         // 允许在该频道触发机器人的用户 ID 或用户名
+}
+
 export interface RocketChatChannelConfig {
   [key: string]: RocketChatConfig;
 }
@@ -25,24 +74,135 @@ export interface RocketChatInboundMessage {
   bot: boolean;                 // 是否为机器人消息
   channel_id: string;           // 频道 ID
   channel_name: string | null;  // 频道名称
+  room_type?: string;           // 房间类型（实时 API 提供）：d 私聊 / c 公开频道 / p 私有群组 / l 访客
   message_id: string;           // 消息 ID
   timestamp: string;            // 时间戳
   user_id: string;              // 用户 ID
   user_name: string;            // 用户名
   text: string;                 // 消息文本
   siteUrl: string;              // 站点 URL
+  tmid?: string;                // 所属讨论串（线程）的根消息 ID
+  file?: RocketChatFile;        // 上传的文件（单个）
+  files?: RocketChatFile[];     // 上传的文件列表
+  attachments?: RocketChatInboundAttachment[]; // 消息附件
+  isEdited?: boolean;           // 编辑事件（与原消息共用 message_id）
+  editedAt?: string;            // 编辑时间
+}
+
+// 上传文件信息
+export interface RocketChatFile {
+  _id: string;
+  name: string;
+  type?: string;
+  size?: number;
+}
+
+// 接收消息中的附件（文件上传会生成附件）
+export interface RocketChatInboundAttachment {
+  type?: string;
+  title?: string;
+  title_link?: string;
+  title_link_download?: boolean;
+  description?: string;
+  text?: string;
+  image_url?: string;
+  image_type?: string;
+  image_size?: number;
+  audio_url?: string;
+  audio_type?: string;
+  video_url?: string;
+  video_type?: string;
+}
+
+// 待下载的入站媒体引用
+export interface InboundMediaRef {
+  url: string;
+  mimeType: string;
+  name?: string;
 }
 
 // 发送给 Rocket.Chat 的消息格式
 export interface RocketChatOutboundMessage {
   text: string;
-  attachments?: Array<{
-    title: string;
-    title_link?: string;
-    text: string;
-    image_url?: string;
-    color?: string;
-  }>;
+  tmid?: string;
+  attachments?: RocketChatAttachment[];
+  channel?: string;             // 传入 WebHook 的目标（#频道 或 @用户），不填时发到 WebHook 的默认频道
+}
+
+// 消息附件
+export interface RocketChatAttachment {
+  title?: string;
+  title_link?: string;
+  title_link_download?: boolean;
+  text?: string;
+  image_url?: string;
+  thumb_url?: string;
+  color?: string;
+  collapsed?: boolean;          // 折叠显示（需要 title）
+  fields?: RocketChatAttachmentField[];
+  actions?: RocketChatAttachmentAction[];
+  button_alignment?: 'vertical' | 'horizontal';
+}
+
+// 附件中的交互按钮
+export interface RocketChatAttachmentAction {
+  type: 'button';
+  text: string;
+  msg?: string;                 // 点击后以用户身份发送的消息
+  msg_in_chat_window?: boolean;
+}
+
+// 附件中的键值字段
+export interface RocketChatAttachmentField {
+  title: string;
+  value: string;
+  short?: boolean;              // 与相邻字段并排显示
+}
+
+// Agent 回复中的结构化卡片（payload.channelData.rocketchat.cards）
+export interface RocketChatReplyCard {
+  title?: string;
+  url?: string;                 // 标题链接
+  text?: string;
+  status?: string;              // success / info / warning / error，映射为颜色
+  color?: string;               // 直接指定颜色，优先于 status
+  fields?: Array<{ title: string; value: unknown; short?: boolean }> | Record<string, unknown>;
+  imageUrl?: string;
+  thumbUrl?: string;
+  collapsed?: boolean;
+  buttons?: RocketChatReplyButton[];
+}
+
+// 卡片上的选项按钮
+export interface RocketChatReplyButton {
+  text: string;                 // 按钮文字
+  value?: string;               // 点击后交给 Agent 的值，默认为按钮文字
+}
+
+// 按钮点击回传给 Agent 的结构化响应
+export interface RocketChatActionResponse {
+  actionId: string;
+  label: string;
+  value: string;
+}
+
+// payload.channelData.rocketchat 的结构
+export interface RocketChatReplyChannelData {
+  cards?: RocketChatReplyCard[];
+  attachments?: RocketChatAttachment[];   // 原样透传的 Rocket.Chat 附件
+}
+
+// REST API chat.postMessage / rooms.upload 的响应格式
+export interface RocketChatPostMessageResult {
+  success: boolean;
+  ts?: number;
+  channel?: string;
+  message?: {
+    _id: string;
+    rid: string;
+    msg: string;
+  };
+  error?: string;
 }
 
 // 消息内容解析结果
@@ -51,6 +211,7 @@ export interface MessageContent {
   messageType: string;
   mediaPath?: string;
   mediaType?: string;
+  mediaRefs?: InboundMediaRef[];
 }
 
 // 发送消息选项
@@ -58,6 +219,8 @@ export interface SendMessageOptions {
   useMarkdown?: boolean;
   title?: string;
   atUserId?: string | null;
+  threadId?: string;            // 回复到指定讨论串
+  attachments?: RocketChatAttachment[];
   log?: Logger;
 }
 
@@ -67,6 +230,14 @@ export interface MediaFile {
   mimeType: string;
 }
 
+// 出站媒体引用：远程 URL 或本地文件
+export interface OutboundMedia {
+  kind: 'url' | 'file';
+  location: string;             // URL 或本地文件路径
+  mimeType: string;
+  name: string;
+}
+
 // 处理 Rocket.Chat 消息参数
 export interface HandleRocketChatMessageParams {
   cfg: OpenClawConfig;
@@ -75,30 +246,21 @@ export interface HandleRocketChatMessageParams {
   sessionWebhook: string;
   log: Logger;
   rocketchatConfig: RocketChatConfig;
+  verified?: boolean;           // 传输层已完成认证（如实时 API 登录），跳过令牌校验
+  command?: string;             // 来自原生斜杠命令（命令名，不含 /）
 }
 
 // 主动发送消息载荷
 export interface ProactiveMessagePayload {
   text: string;
-  attachments?: Array<{
-    title: string;
-    title_link?: string;
-    text: string;
-    image_url?: string;
-    color?: string;
-  }>;
+  attachments?: RocketChatAttachment[];
 }
 
 // 会话 Webhook 响应
 export interface SessionWebhookResponse {
   text: string;
-  attachments?: Array<{
-    title: string;
-    title_link?: string;
-    text: string;
-    image_url?: string;
-    color?: string;
-  }>;
+  tmid?: string;
+  attachments?: RocketChatAttachment[];
 }
 
 // Axios 响应类型
@@ -124,6 +286,8 @@ export interface GatewayStartContext {
   cfg: OpenClawConfig;
   abortSignal?: AbortSignal;
   log?: Logger;
+  getStatus?: () => Record<string, any>;
+  setStatus?: (next: Record<string, any>) => void;
 }
 
 // 网关停止结果
@@ -131,24 +295,23 @@ export interface GatewayStopResult {
   stop: () => void;
 }
 
-// AI 卡片实例（如果需要扩展）
+// AI 卡片实例：流式回复时被持续编辑的一条消息
 export interface AICardInstance {
-  cardInstanceId: string;
-  accessToken: string;
+  cardInstanceId: string;       // 消息 ID
+  roomId: string;               // 消息所在房间 ID（chat.update 需要）
   conversationId: string;
+  threadId?: string;            // 回复所在讨论串（溢出部分继续发在这里）
   createdAt: number;
   lastUpdated: number;
-  state: string;
+  state: AICardStatus;
+  content: string;
   config?: RocketChatConfig;
 }
 
 // AI 卡片流式请求
 export interface AICardStreamingRequest {
-  outTrackId: string;
-  guid: string;
-  key: string;
   content: string;
-  isFull: boolean;
+  isFull: boolean;              // content 为完整文本，否则追加
   isFinalize: boolean;
   isError: boolean;
 }
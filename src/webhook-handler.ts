@@ -4,8 +4,12 @@ import type {
   RocketChatInboundMessage, 
   Logger 
 } from './types';
-import { handleRocketChatMessage } from './channel';
-import { getRocketChatRuntime } from './runtime';
+import { handleRocketChatMessage, enqueueRocketChatMessage } from './channel';
+import { verifyWebhookRequest } from './auth';
+import { recordInbound } from './metrics';
+import { maskSensitiveData } from '../utils';
+import { hasInboundMedia } from './media';
+import { ACTION_TRIGGER } from './actions';
 
 // Re-export handleRocketChatMessage to ensure it's accessible from dynamic imports
 export { handleRocketChatMessage };
@@ -24,31 +28,33 @@ export async function rocketChatWebhookHandler(
 ): Promise<void> {
   try {
     // Log the incoming request
-    log?.debug?.('[RocketChat] Incoming webhook request:', {
+    log?.debug?.('[RocketChat] Incoming webhook request:', maskSensitiveData({
       method: req.method,
       headers: req.headers,
       body: req.body
-    });
+    }));
 
-    // Verify the request is from Rocket.Chat by checking the auth token
+    // Verify the request is from Rocket.Chat: source address, auth token and timestamp
     const requestBody = req.body as Partial<RocketChatInboundMessage>;
-    
-    // Check if the token in the request matches our configured token
-    if (requestBody.token !== rocketchatConfig.authToken) {
-      log?.error?.(`[RocketChat] Unauthorized webhook request - token mismatch`);
+    const auth = verifyWebhookRequest(rocketchatConfig, req, requestBody);
+    if (!auth.ok) {
+      log?.error?.(`[RocketChat] Unauthorized webhook request - ${auth.reason}`);
+      recordInbound(accountId, 'unauthorized');
+      const error = auth.status === 403 ? 'Forbidden' : 'Unauthorized: Invalid token';
       if (res.status && res.json) {
-        res.status(401).json({ error: 'Unauthorized: Invalid token' });
+        res.status(auth.status).json({ error });
       } else {
-        res.statusCode = 401;
+        res.statusCode = auth.status;
         res.setHeader('Content-Type', 'application/json');
-        res.end(JSON.stringify({ error: 'Unauthorized: Invalid token' }));
+        res.end(JSON.stringify({ error }));
       }
       return;
     }
 
     // Validate required fields
-    if (!requestBody.token || !requestBody.user_id || !requestBody.text) {
+    if (!requestBody.user_id || (!requestBody.text && !hasInboundMedia(requestBody))) {
       log?.error?.(`[RocketChat] Missing required fields in webhook request`);
+      recordInbound(accountId, 'bad_request');
       if (res.status && res.json) {
         res.status(400).json({ error: 'Bad Request: Missing required fields' });
       } else {
@@ -73,7 +79,8 @@ export async function rocketChatWebhookHandler(
       data: inboundMessage,
       sessionWebhook,
       log: log || console,
-      rocketchatConfig
+      rocketchatConfig,
+      verified: true,
     });
 
     // Respond to Rocket.Chat that the message was received
@@ -103,64 +110,192 @@ export async function rocketChatWebhookHandler(
   }
 }
 
+// Rocket.Chat slash command name -> OpenClaw command (null: the arguments are a plain question)
+const SLASH_COMMANDS: Record<string, string | null> = {
+  ask: null,
+  reset: '/reset',
+  new: '/new',
+  status: '/status',
+  help: '/help',
+  stop: '/stop',
+};
+
+/**
+ * Read a JSON or form-encoded request body (a form `payload` field may carry JSON)
+ */
+export async function readRequestBody(req: any): Promise<any> {
+  if (req.body && typeof req.body === 'object') return req.body;
+
+  const raw = await new Promise<string>((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+  const contentType = req.headers?.['content-type'] || '';
+  if (contentType.includes('application/json')) return JSON.parse(raw || '{}');
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    const parsed: any = Object.fromEntries(new URLSearchParams(raw).entries());
+    return parsed.payload ? JSON.parse(parsed.payload) : parsed;
+  }
+}
+
+function sendJson(res: any, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
 /**
- * Alternative handler for when Rocket.Chat expects a specific response format
+ * Handler for native slash commands (`/hooks/rocketchat/<accountId>/command`).
+ * Accepts slash command payloads (`command` + `text`) and outgoing webhooks triggered by a
+ * `/command` trigger word. The request is acknowledged ephemerally right away and the mapped
+ * OpenClaw command is processed through the normal message pipeline.
  */
-export async function rocketChatInteractiveHandler(
-  req: Request,
-  res: Response,
+export async function rocketChatCommandHandler(
+  req: any,
+  res: any,
   cfg: OpenClawConfig,
   accountId: string,
   rocketchatConfig: RocketChatConfig,
   log?: Logger
 ): Promise<void> {
   try {
-    log?.debug?.('[RocketChat] Processing interactive message request');
+    if (req.method !== 'POST') {
+      res.statusCode = 405;
+      res.setHeader('Allow', 'POST');
+      res.end('Method Not Allowed');
+      return;
+    }
 
-    const requestBody = req.body as Partial<RocketChatInboundMessage>;
-    
-    // Verify the request
-    if (requestBody.token !== rocketchatConfig.authToken) {
-      res.status(401).json({ error: 'Unauthorized' });
+    const body = await readRequestBody(req);
+    // Slash command payloads carry no timestamp; outgoing webhooks do
+    const auth = verifyWebhookRequest(rocketchatConfig, req, body, { requireTimestamp: !body.command });
+    if (!auth.ok) {
+      log?.error?.(`[RocketChat] Unauthorized slash command - ${auth.reason}`);
+      recordInbound(accountId, 'unauthorized');
+      sendJson(res, auth.status, { error: auth.status === 403 ? 'Forbidden' : 'Unauthorized: Invalid token' });
       return;
     }
 
-    // Validate the message
-    if (!requestBody.user_id || !requestBody.text) {
-      res.status(400).json({ error: 'Missing required fields' });
+    const triggerWord = String(body.trigger_word || '');
+    const name = String(body.command || triggerWord).trim().replace(/^\//, '').toLowerCase();
+    let args = String(body.text || '').trim();
+    if (!body.command && triggerWord && args.toLowerCase().startsWith(triggerWord.toLowerCase())) {
+      args = args.slice(triggerWord.length).trim();
+    }
+
+    // Outgoing webhooks post any response text publicly, so only slash commands get an ephemeral ack
+    const reply = (text: string) => sendJson(res, 200, { text: body.command ? text : '', response_type: 'ephemeral' });
+
+    if (!body.user_id || !body.channel_id || !(name in SLASH_COMMANDS)) {
+      log?.debug?.(`[RocketChat] Unsupported slash command: /${name}`);
+      recordInbound(accountId, 'bad_request');
+      reply(`Unknown command /${name}. Available: ${Object.keys(SLASH_COMMANDS).map((key) => `/${key}`).join(', ')}`);
       return;
     }
 
-    // Process the message
-    const inboundMessage = requestBody as RocketChatInboundMessage;
-    const sessionWebhook = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+    const mapped = SLASH_COMMANDS[name];
+    if (mapped === null && !args) {
+      reply(`Usage: /${name} <question>`);
+      return;
+    }
+    const text = mapped === null ? args : `${mapped}${args ? ` ${args}` : ''}`;
+    reply(mapped === null ? '' : `Running ${mapped}…`);
 
-    await handleRocketChatMessage({
+    enqueueRocketChatMessage({
       cfg,
       accountId,
-      data: inboundMessage,
-      sessionWebhook,
+      data: {
+        token: body.token,
+        bot: false,
+        channel_id: body.channel_id,
+        channel_name: body.channel_name ?? null,
+        message_id: body.message_id || body.trigger_id || `command:${Date.now()}`,
+        timestamp: body.timestamp || new Date().toISOString(),
+        user_id: body.user_id,
+        user_name: body.user_name,
+        text,
+        siteUrl: body.siteUrl || '',
+        tmid: body.tmid,
+      },
+      sessionWebhook: '',
       log: log || console,
-      rocketchatConfig
+      rocketchatConfig,
+      verified: true,
+      command: name,
     });
+  } catch (error: any) {
+    log?.error?.(`[RocketChat] Error in slash command handler: ${error.message}`);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal Server Error' });
+  }
+}
 
-    // For interactive messages, we might want to return a response
-    // This is configurable based on the use case
-    res.status(200).json({
-      text: '', // Return empty to not post a public response
-      ephemeral: true // This makes the response only visible to the sender
-    });
+/**
+ * Handler for button clicks (`/hooks/rocketchat/<accountId>/action`), fed by an outgoing webhook with the
+ * `choice:` trigger word. A click is the clicker's own signed `choice:` message; the signature and the
+ * clicker are verified in the message pipeline, which also accepts clicks seen on the main webhook path.
+ */
+export async function rocketChatActionHandler(
+  req: any,
+  res: any,
+  cfg: OpenClawConfig,
+  accountId: string,
+  rocketchatConfig: RocketChatConfig,
+  log?: Logger
+): Promise<void> {
+  try {
+    if (req.method !== 'POST') {
+      res.statusCode = 405;
+      res.setHeader('Allow', 'POST');
+      res.end('Method Not Allowed');
+      return;
+    }
 
+    const body = await readRequestBody(req);
+    const auth = verifyWebhookRequest(rocketchatConfig, req, body);
+    if (!auth.ok) {
+      log?.error?.(`[RocketChat] Unauthorized button click - ${auth.reason}`);
+      recordInbound(accountId, 'unauthorized');
+      sendJson(res, auth.status, { error: auth.status === 403 ? 'Forbidden' : 'Unauthorized: Invalid token' });
+      return;
+    }
+
+    if (!body.user_id || !body.channel_id || !String(body.text || '').startsWith(ACTION_TRIGGER)) {
+      log?.debug?.('[RocketChat] Ignoring action request that carries no button click');
+      recordInbound(accountId, 'bad_request');
+      sendJson(res, 400, { error: 'Bad Request: not a button click' });
+      return;
+    }
+
+    // Outgoing webhooks post any response text publicly, so the click is acknowledged without text
+    sendJson(res, 200, { text: '' });
+
+    enqueueRocketChatMessage({
+      cfg,
+      accountId,
+      data: body as RocketChatInboundMessage,
+      sessionWebhook: '',
+      log: log || console,
+      rocketchatConfig,
+      verified: true,
+    });
   } catch (error: any) {
-    log?.error?.(`[RocketChat] Error in interactive handler: ${error.message}`);
-    res.status(500).json({ error: 'Internal Server Error' });
+    log?.error?.(`[RocketChat] Error in button click handler: ${error.message}`);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal Server Error' });
   }
 }
 
 /**
  * Health check endpoint for the Rocket.Chat webhook
  */
-export function rocketChatHealthCheck(req: Request, res: Response): void {
+export function rocketChatHealthCheck(req: any, res: any): void {
   res.status(200).json({ 
     status: 'ok', 
     service: 'Rocket.Chat webhook handler',
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkText } from '../utils';
+
+test('short text is returned as a single chunk', () => {
+  assert.deepEqual(chunkText('hello', { limit: 100 }), ['hello']);
+});
+
+test('splits at paragraph boundaries and keeps every chunk within the limit', () => {
+  const paragraphs = Array.from({ length: 6 }, (_, index) => `Paragraph ${index} ${'x'.repeat(60)}`);
+  const chunks = chunkText(paragraphs.join('\n\n'), { limit: 150 });
+
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) assert.ok(chunk.length <= 150, `chunk of ${chunk.length} chars`);
+  assert.equal(chunks.join('\n\n'), paragraphs.join('\n\n'));
+});
+
+test('an oversized code block is closed and reopened with its fence', () => {
+  const code = Array.from({ length: 30 }, (_, index) => `  line ${index} of the code block`).join('\n');
+  const chunks = chunkText(`\`\`\`ts\n${code}\n\`\`\``, { limit: 200 });
+
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.ok(chunk.length <= 200);
+    assert.match(chunk, /^```ts\n/);
+    assert.match(chunk, /\n```$/);
+  }
+  // Indentation inside the block survives the split
+  assert.ok(chunks.slice(1).every((chunk) => chunk.split('\n')[1].startsWith('  line')));
+});
+
+test('numbered chunks carry an [n/m] prefix and still fit the limit', () => {
+  const text = Array.from({ length: 8 }, () => 'y'.repeat(90)).join('\n\n');
+  const chunks = chunkText(text, { limit: 120, numbered: true });
+
+  chunks.forEach((chunk, index) => {
+    assert.ok(chunk.startsWith(`[${index + 1}/${chunks.length}] `));
+    assert.ok(chunk.length <= 120);
+  });
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toDeliveryError, deliverWithRetry, RocketChatDeliveryError } from '../src/delivery';
+import type { RocketChatConfig } from '../src/types';
+
+function httpError(status: number, headers: Record<string, string> = {}): any {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status, headers, data: { error: 'boom' } },
+  });
+}
+
+function networkError(code: string): any {
+  return Object.assign(new Error(`connect ${code}`), { isAxiosError: true, code, request: {} });
+}
+
+test('requests that got no response are retryable', () => {
+  for (const code of ['ECONNREFUSED', 'EHOSTUNREACH', 'ENETUNREACH', 'ENOTFOUND', 'ECONNABORTED']) {
+    assert.equal(toDeliveryError(networkError(code)).retryable, true, code);
+  }
+});
+
+test('5xx and 429 are retryable, other 4xx are not', () => {
+  assert.equal(toDeliveryError(httpError(500)).retryable, true);
+  assert.equal(toDeliveryError(httpError(507)).retryable, true);
+  assert.equal(toDeliveryError(httpError(429, { 'retry-after': '2' })).retryable, true);
+  assert.equal(toDeliveryError(httpError(400)).retryable, false);
+  assert.equal(toDeliveryError(httpError(403)).retryable, false);
+});
+
+test('rate limits longer than a minute are not retried', () => {
+  const failure = toDeliveryError(httpError(429, { 'retry-after': '600' }));
+  assert.equal(failure.retryable, false);
+  assert.equal(failure.retryAfterMs, 600000);
+});
+
+test('errors raised before any request was made are not retryable', () => {
+  assert.equal(toDeliveryError(new Error('REST mode requires serverUrl')).retryable, false);
+});
+
+test('deliverWithRetry retries transient failures and gives up on permanent ones', async () => {
+  const config = { outboundMode: 'rest', serverUrl: 'https://chat.example.com', deliveryRetries: 2, roomPacingMs: 0 } as RocketChatConfig;
+
+  let attempts = 0;
+  const result = await deliverWithRetry(config, 'room-retry', async () => {
+    attempts++;
+    if (attempts === 1) throw httpError(429, { 'retry-after': '0' });
+    return 'sent';
+  });
+  assert.equal(result, 'sent');
+  assert.equal(attempts, 2);
+
+  attempts = 0;
+  await assert.rejects(
+    deliverWithRetry(config, 'room-permanent', async () => {
+      attempts++;
+      throw httpError(404);
+    }),
+    (err: unknown) => err instanceof RocketChatDeliveryError && err.status === 404
+  );
+  assert.equal(attempts, 1);
+});
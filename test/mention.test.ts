@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildMentionMatchers, detectMention } from '../src/mention';
+import type { RocketChatConfig } from '../src/types';
+
+const matchers = buildMentionMatchers({ mentionPatterns: ['rocket.bot', 'helper'] } as RocketChatConfig, 'rocket');
+
+test('@username is detected and stripped', () => {
+  assert.deepEqual(detectMention('@rocket what time is it?', matchers), { mentioned: true, stripped: 'what time is it?' });
+  assert.deepEqual(detectMention('thanks @rocket.', matchers), { mentioned: true, stripped: 'thanks.' });
+});
+
+test('aliases are detected at word boundaries', () => {
+  assert.deepEqual(detectMention('rocket.bot, deploy please', matchers), { mentioned: true, stripped: 'deploy please' });
+  assert.equal(detectMention('Helper: status', matchers).mentioned, true);
+});
+
+test('names inside longer handles, emails or words are not mentions', () => {
+  for (const text of ['@rocketeer hi', '@rocket.bot.x hi', 'email a@rocket.bot', 'self-helper mode', 'helpers', '@rocket-dev ping']) {
+    assert.deepEqual(detectMention(text, matchers), { mentioned: false, stripped: text }, text);
+  }
+});
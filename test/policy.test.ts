@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeAllowFrom, isSenderAllowed, isGroupSenderAllowed, resolveCommandAuthorized } from '../src/policy';
+import type { RocketChatConfig } from '../src/types';
+
+test('plain entries match user IDs exactly', () => {
+  const allow = normalizeAllowFrom(['AbC123', 'rocketchat:XyZ']);
+  assert.equal(isSenderAllowed({ allow, senderId: 'AbC123' }), true);
+  assert.equal(isSenderAllowed({ allow, senderId: 'XyZ' }), true);
+  assert.equal(isSenderAllowed({ allow, senderId: 'abc123' }), false);
+  // A username equal to an ID entry does not match
+  assert.equal(isSenderAllowed({ allow, senderId: 'other', senderName: 'AbC123' }), false);
+});
+
+test('@ entries match usernames case-insensitively', () => {
+  const allow = normalizeAllowFrom(['@Alice']);
+  assert.equal(isSenderAllowed({ allow, senderId: 'u1', senderName: 'alice' }), true);
+  assert.equal(isSenderAllowed({ allow, senderId: 'alice' }), false);
+});
+
+test('an empty list allows everyone and * allows everyone explicitly', () => {
+  assert.equal(isSenderAllowed({ allow: normalizeAllowFrom([]), senderId: 'u1' }), true);
+  assert.equal(isSenderAllowed({ allow: normalizeAllowFrom(['*']), senderId: 'u1' }), true);
+});
+
+test('channel allowFrom overrides groupAllowFrom', () => {
+  const config = {
+    groupAllowFrom: ['u1'],
+    groups: { '#ops': { allowFrom: ['@bob'] } },
+  } as unknown as RocketChatConfig;
+
+  assert.equal(isGroupSenderAllowed(config, { channelName: 'ops', senderId: 'u1', senderName: 'alice' }), false);
+  assert.equal(isGroupSenderAllowed(config, { channelName: 'ops', senderId: 'u2', senderName: 'Bob' }), true);
+  assert.equal(isGroupSenderAllowed(config, { channelName: 'random', senderId: 'u1' }), true);
+});
+
+test('command authorization falls back to allowFrom in groups', () => {
+  const config = { allowFrom: ['admin'] } as RocketChatConfig;
+  assert.equal(resolveCommandAuthorized(config, { isDirect: false, channelId: 'room', senderId: 'admin' }), true);
+  assert.equal(resolveCommandAuthorized(config, { isDirect: false, channelId: 'room', senderId: 'guest' }), false);
+  assert.equal(resolveCommandAuthorized(config, { isDirect: true, senderId: 'guest', paired: true }), true);
+  // Without any list every sender may run commands
+  assert.equal(resolveCommandAuthorized({} as RocketChatConfig, { isDirect: false, senderId: 'guest' }), true);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { enqueueTask, getQueueStats } from '../src/queue';
+import type { RocketChatConfig } from '../src/types';
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test('a task that can start right away does not count against the queue depth', async () => {
+  const config = { maxConcurrent: 4, maxQueueDepth: 1 } as RocketChatConfig;
+  const gate = deferred();
+
+  assert.equal(enqueueTask('depth', 'room-a', config, () => gate.promise), true);
+  assert.equal(enqueueTask('depth', 'room-a', config, async () => {}), true);
+  // One task runs and one waits behind it: the queue is full
+  assert.equal(enqueueTask('depth', 'room-a', config, async () => {}), false);
+
+  gate.resolve();
+  await tick();
+  await tick();
+  assert.deepEqual(getQueueStats('depth'), { running: 0, queued: 0, conversations: 0 });
+});
+
+test('tasks of one conversation run in order', async () => {
+  const config = { maxConcurrent: 4, maxQueueDepth: 10 } as RocketChatConfig;
+  const order: number[] = [];
+  const gate = deferred();
+
+  enqueueTask('order', 'room', config, async () => {
+    await gate.promise;
+    order.push(1);
+  });
+  enqueueTask('order', 'room', config, async () => {
+    order.push(2);
+  });
+
+  await tick();
+  assert.deepEqual(order, []);
+  gate.resolve();
+  await tick();
+  await tick();
+  assert.deepEqual(order, [1, 2]);
+});
+
+test('maxConcurrent caps running tasks across accounts', async () => {
+  const config = { maxConcurrent: 1, maxQueueDepth: 10 } as RocketChatConfig;
+  const gate = deferred();
+  let secondStarted = false;
+
+  enqueueTask('cap-a', 'room', config, () => gate.promise);
+  enqueueTask('cap-b', 'room', config, async () => {
+    secondStarted = true;
+  });
+
+  await tick();
+  assert.equal(secondStarted, false);
+  assert.equal(getQueueStats('cap-b').queued, 1);
+
+  gate.resolve();
+  await tick();
+  await tick();
+  assert.equal(secondStarted, true);
+});
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import type { Logger } from './src/types';
+import { toRocketChatMarkdown, toPlainText } from './src/markdown';
 
 // Mask sensitive data in logs
 export function maskSensitiveData(obj: any): any {
@@ -47,18 +48,27 @@ export function cleanupOrphanedTempFiles(log?: Logger): void {
 // Retry with exponential backoff
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
-  options: { maxRetries?: number; delayMs?: number; log?: Logger } = {}
+  options: {
+    maxRetries?: number;
+    delayMs?: number;
+    log?: Logger;
+    // Return false to give up immediately (e.g. non-retryable errors)
+    shouldRetry?: (error: any) => boolean;
+    // Override the backoff delay for an attempt (e.g. from a Retry-After header)
+    getDelay?: (error: any, attempt: number) => number | undefined;
+  } = {}
 ): Promise<T> {
-  const { maxRetries = 3, delayMs = 1000, log } = options;
+  const { maxRetries = 3, delayMs = 1000, log, shouldRetry, getDelay } = options;
   let lastError: any;
 
   for (let i = 0; i <= maxRetries; i++) {
     try {
       return await fn();
-    } catch (error) {
+    } catch (error: any) {
       lastError = error;
+      if (shouldRetry && !shouldRetry(error)) break;
       if (i < maxRetries) {
-        const delay = delayMs * Math.pow(2, i); // Exponential backoff
+        const delay = getDelay?.(error, i) ?? delayMs * Math.pow(2, i); // Exponential backoff
         log?.debug?.(`[RocketChat] Retry attempt ${i + 1}/${maxRetries + 1} failed, waiting ${delay}ms: ${error.message}`);
         await new Promise(resolve => setTimeout(resolve, delay));
       }
@@ -68,22 +78,139 @@ export async function retryWithBackoff<T>(
   throw lastError;
 }
 
-// Sanitize text for Rocket.Chat
+// Sanitize text for Rocket.Chat (length limits are handled by chunkText)
 export function sanitizeText(text: string): string {
   // Replace problematic characters or patterns for Rocket.Chat
   return text
     .replace(/\u00A0/g, ' ') // Non-breaking space to regular space
-    .replace(/\r\n/g, '\n')  // Normalize line endings
-    .substring(0, 4000);     // Truncate to reasonable length (adjust as needed)
+    .replace(/\r\n/g, '\n'); // Normalize line endings
 }
 
-// Format message for Rocket.Chat
-export function formatMessage(text: string, options: { markdown?: boolean } = {}): string {
-  if (options.markdown === false) {
-    // Escape markdown characters if not using markdown
-    return text
-      .replace(/([*_~`])/g, '\\$1')
-      .replace(/\[(.+?)\]\((.+?)\)/g, '$1 ($2)'); // Convert links to plain text
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+
+// Split text into paragraphs and fenced code blocks (a code block is always one unit)
+function splitBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current.some((line) => line.trim())) blocks.push(current.join('\n'));
+    current = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const marker = line.match(FENCE_PATTERN)?.[1];
+    if (fence) {
+      current.push(line);
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length && !line.trim().slice(marker.length)) {
+        fence = null;
+        flush();
+      }
+    } else if (marker) {
+      flush();
+      fence = marker;
+      current.push(line);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      current.push(line);
+    }
   }
-  return text;
+  flush();
+
+  return blocks;
+}
+
+// Hard-split a single unit, preferring whitespace; `preserveIndent` keeps the space at the cut (code)
+function splitHard(unit: string, budget: number, preserveIndent = false): string[] {
+  const parts: string[] = [];
+  let rest = unit;
+  while (rest.length > budget) {
+    const cut = rest.lastIndexOf(' ', budget);
+    const at = cut > budget / 2 ? cut : budget;
+    parts.push(rest.slice(0, at));
+    rest = preserveIndent ? rest.slice(at) : rest.slice(at).replace(/^ /, '');
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+// Greedily concatenate units into pieces no longer than budget.
+// With `preserveIndent` (code lines) only the trailing newline is dropped, so indentation survives the cut.
+function packUnits(units: string[], budget: number, preserveIndent = false): string[] {
+  const finish = (piece: string) => (preserveIndent ? piece.replace(/\n$/, '') : piece.trimEnd());
+  const pieces: string[] = [];
+  let current = '';
+  for (const unit of units.flatMap((u) => (u.length > budget ? splitHard(u, budget, preserveIndent) : [u]))) {
+    if (current && (current + unit).length > budget) {
+      pieces.push(finish(current));
+      current = preserveIndent ? unit : unit.trimStart();
+    } else {
+      current += unit;
+    }
+  }
+  if (current.trim()) pieces.push(finish(current));
+  return pieces;
+}
+
+// Split an oversized block: code blocks by line (closing and reopening the fence), prose by sentence
+function splitOversizedBlock(block: string, budget: number): string[] {
+  const lines = block.split('\n');
+  const marker = lines[0].match(FENCE_PATTERN)?.[1];
+
+  if (marker) {
+    const header = lines[0];
+    const closed = lines.length > 1 && lines[lines.length - 1].trim() === marker;
+    const body = lines.slice(1, closed ? -1 : undefined).map((line) => `${line}\n`);
+    const inner = Math.max(budget - header.length - marker.length - 2, 1);
+    return packUnits(body, inner, true).map((piece) => `${header}\n${piece}\n${marker}`);
+  }
+
+  const units = lines.flatMap((line, index) => {
+    const sentences = line.match(/[^.!?。！？]+(?:[.!?。！？]+["')\]]*\s*|$)/g) ?? [line];
+    if (index < lines.length - 1) sentences[sentences.length - 1] += '\n';
+    return sentences;
+  });
+  return packUnits(units, budget);
+}
+
+/**
+ * Split a reply into ordered chunks that fit the server's message size limit.
+ * Splits at paragraph, then sentence boundaries, never inside a fenced code block:
+ * an oversized code block is closed at the end of a chunk and reopened in the next.
+ */
+export function chunkText(text: string, options: { limit?: number; numbered?: boolean } = {}): string[] {
+  const limit = Math.max(options.limit ?? 4000, 100);
+  if (text.length <= limit) return [text];
+
+  // Leave room for the "[n/m] " prefix
+  const budget = options.numbered ? limit - 12 : limit;
+  const pieces = splitBlocks(text.replace(/\r\n/g, '\n')).flatMap((block) =>
+    block.length <= budget ? [block] : splitOversizedBlock(block, budget)
+  );
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > budget) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+
+  if (!options.numbered || chunks.length < 2) return chunks;
+  // A fence must start its own line to open a code block
+  return chunks.map((chunk, index) => {
+    const prefix = `[${index + 1}/${chunks.length}]`;
+    return FENCE_PATTERN.test(chunk) ? `${prefix}\n${chunk}` : `${prefix} ${chunk}`;
+  });
+}
+
+// Format message for Rocket.Chat: agent markdown is converted to Rocket.Chat syntax, or rendered as plain text
+export function formatMessage(text: string, options: { markdown?: boolean } = {}): string {
+  return options.markdown === false ? toPlainText(text) : toRocketChatMarkdown(text);
 }
\ No newline at end of file